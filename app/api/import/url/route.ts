@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Papa from 'papaparse';
+import { extractHtmlTables } from '@/lib/html-table';
+import { PublicFetchError, fetchPublic, isAllowedUrl } from '@/lib/public-fetch';
+
+// Larger than any QVL we have seen; keeps a wrong link from pulling in something huge
+const MAX_BYTES = 10 * 1024 * 1024;
+
+interface ImportedTable {
+  name: string;
+  cells: string[][];
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { url: rawUrl } = await request.json();
+
+    let url: URL;
+    try {
+      url = new URL(String(rawUrl ?? '').trim());
+    } catch {
+      return NextResponse.json({ error: 'A valid URL is required' }, { status: 400 });
+    }
+    if (!isAllowedUrl(url)) {
+      return NextResponse.json({ error: 'Only public http(s) URLs can be imported' }, { status: 400 });
+    }
+
+    // Redirects are followed hop by hop; each target must be public too
+    const { url: finalUrl, contentType, body: buffer } = await fetchPublic(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36',
+        'Accept': 'text/html,text/csv,application/xhtml+xml,*/*;q=0.8',
+      },
+      maxBytes: MAX_BYTES,
+    });
+
+    const path = finalUrl.pathname.toLowerCase();
+    let tables: ImportedTable[];
+
+    // Workbooks go back unparsed and are read in the browser, like uploaded files
+    if (/spreadsheet|excel|opendocument/.test(contentType) || /\.(xlsx|xlsm|xls|ods)$/.test(path)) {
+      return NextResponse.json({ source: url.toString(), workbook: Buffer.from(buffer).toString('base64') });
+    } else {
+      const text = new TextDecoder().decode(buffer);
+      if (contentType.includes('html') || /<table\b/i.test(text)) {
+        tables = extractHtmlTables(text).map((cells, i) => ({ name: `Table ${i + 1}`, cells }));
+      } else {
+        const parsed = Papa.parse<string[]>(text, {
+          header: false,
+          delimiter: /\.(tsv|tab)$/.test(path) ? '\t' : undefined,
+          skipEmptyLines: false,
+        });
+        tables = [{ name: finalUrl.pathname.split('/').pop() || 'Data', cells: parsed.data }];
+      }
+    }
+
+    tables = tables.filter(table => table.cells.some(row => row.some(Boolean)));
+    if (tables.length === 0) {
+      return NextResponse.json({ error: 'No table found at that URL' }, { status: 422 });
+    }
+
+    return NextResponse.json({ source: url.toString(), tables });
+  } catch (error) {
+    if (error instanceof PublicFetchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('URL import error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import from URL' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobRunner } from '@/lib/job-runner';
+import { ndjsonLine } from '@/lib/ndjson';
+import { BatchSearchLine, searchModule } from '@/lib/prisjakt-search';
+import { cleanProductName } from '@/lib/sku';
+import { PrisjaktProduct } from '@/types/ram';
+
+// Most module numbers one request may ask for
+const MAX_MODULES = 200;
+// Prisjakt lookups in flight per batch; searchModule spaces them out per host across requests
+const CONCURRENCY = 3;
+
+// Streams one NDJSON line per distinct module number as its search resolves
+export async function POST(request: NextRequest) {
+  let body: { moduleNumbers?: unknown; apiKey?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const moduleNumbers = Array.isArray(body.moduleNumbers)
+    ? body.moduleNumbers.filter((m): m is string => typeof m === 'string' && m.trim() !== '')
+    : [];
+  if (moduleNumbers.length === 0) {
+    return NextResponse.json({ error: 'Module numbers are required' }, { status: 400 });
+  }
+  if (moduleNumbers.length > MAX_MODULES) {
+    return NextResponse.json({ error: `At most ${MAX_MODULES} module numbers per request` }, { status: 400 });
+  }
+
+  // Module numbers that differ only by a version suffix are searched once
+  const groups = new Map<string, string[]>();
+  for (const moduleNumber of moduleNumbers) {
+    const cleaned = cleanProductName(moduleNumber);
+    groups.set(cleaned, [...(groups.get(cleaned) ?? []), moduleNumber]);
+  }
+
+  const { apiKey } = body;
+  const encoder = new TextEncoder();
+  let runner: JobRunner<string, PrisjaktProduct[]> | null = null;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (line: BatchSearchLine) => controller.enqueue(encoder.encode(ndjsonLine(line)));
+      runner = new JobRunner<string, PrisjaktProduct[]>(Array.from(groups.keys()), {
+        keyOf: cleaned => cleaned,
+        run: cleaned => searchModule(groups.get(cleaned)?.[0] ?? cleaned, apiKey),
+        concurrency: CONCURRENCY,
+        hostIntervalMs: 0,
+        onJobUpdate: (cleaned, status, products, error) => {
+          const requested = groups.get(cleaned) ?? [cleaned];
+          if (products) send({ moduleNumber: cleaned, requested, products });
+          else if (status === 'error') {
+            console.error(`Batch search for ${cleaned} failed:`, error);
+            send({ moduleNumber: cleaned, requested, error: 'Failed to search for RAM module' });
+          }
+        },
+      });
+      const { state } = await runner.start();
+      if (state !== 'cancelled') controller.close();
+    },
+    // The client went away: stop starting new searches
+    cancel() {
+      runner?.cancel();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { 'content-type': 'application/x-ndjson; charset=utf-8', 'cache-control': 'no-store' },
+  });
+}
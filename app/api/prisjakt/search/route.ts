@@ -1,12 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrisjaktAPI } from '@/lib/prisjakt-api';
-import { scrapePrisjaktSearch } from '@/lib/prisjakt-scraper';
-import { scrapePrisjaktProduct } from '@/lib/prisjakt-scraper';
-
-// Remove version numbers from product names (e.g., "ver 5.53.13")
-function cleanProductName(name: string): string {
-  return name.replace(/\s+ver\s+[\d.]+/gi, '').trim();
-}
+import { searchModule } from '@/lib/prisjakt-search';
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,25 +12,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const cleanModuleNumber = cleanProductName(moduleNumber);
-
-    // If no API key provided, fall back to scraping
-    if (!apiKey) {
-      // Search with the exact module number (SKU)
-      console.log(`Searching for: "${cleanModuleNumber}"`);
-      
-      const products = await scrapePrisjaktSearch(cleanModuleNumber);
-      
-      if (products.length === 1) {
-        const refinedProducts = await scrapePrisjaktProduct(products[0].storeUrl);
-        return NextResponse.json({ products: refinedProducts });
-      }
-
-      return NextResponse.json({ products });
-    }
-
-    const api = new PrisjaktAPI(apiKey);
-    const products = await api.searchRAM(moduleNumber);
+    const products = await searchModule(moduleNumber, apiKey);
 
     return NextResponse.json({ products });
   } catch (error) {
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Forwards the page's watchlist to the Cloudflare worker. The token the worker requires stays
+// on this server; the browser never sees it.
+export async function PUT(request: NextRequest) {
+  const workerUrl = process.env.NEXT_PUBLIC_WORKER_URL?.replace(/\/+$/, '');
+  const token = process.env.WATCHLIST_TOKEN;
+  if (!workerUrl || !token) {
+    return NextResponse.json({ synced: false });
+  }
+
+  try {
+    const res = await fetch(`${workerUrl}/api/watchlist`, {
+      method: 'PUT',
+      headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+      body: await request.text(),
+    });
+    if (!res.ok) {
+      const { error } = await res.json().catch(() => ({ error: undefined }));
+      return NextResponse.json({ error: error ?? `Worker responded ${res.status}` }, { status: res.status });
+    }
+    return NextResponse.json({ synced: true });
+  } catch (error) {
+    console.error('Watchlist sync error:', error);
+    return NextResponse.json(
+      { error: 'Failed to sync the watchlist' },
+      { status: 502 }
+    );
+  }
+}
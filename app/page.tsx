@@ -1,163 +1,332 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { AlertCircle, CheckCircle, Info } from 'lucide-react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { AlertCircle, CheckCircle, Info, Plus } from 'lucide-react';
+import BoardList from '@/components/BoardList';
+import BoardSetPanel from '@/components/BoardSetPanel';
+import BuildPlanner from '@/components/BuildPlanner';
 import CSVUpload from '@/components/CSVUpload';
+import ColumnMappingReview, { ColumnInfo, ImportResult } from '@/components/ColumnMappingReview';
+import CompatibilityAdvisor from '@/components/CompatibilityAdvisor';
+import ImportReportPanel from '@/components/ImportReportPanel';
+import MappingPresetManager from '@/components/MappingPresetManager';
+import PasteImport from '@/components/PasteImport';
+import RefreshProgress from '@/components/RefreshProgress';
+import UrlImport from '@/components/UrlImport';
+import WatchlistPanel from '@/components/WatchlistPanel';
 import RAMTable from '@/components/RAMTable';
-import { RAMModule, RAMModuleWithPrice, PrisjaktProduct } from '@/types/ram';
+import { RawTable, TableMapping, detectTableMapping } from '@/lib/csv-parser';
+import { PopulationTarget, filterByPopulation } from '@/lib/dimm-population';
+import { findImcProfile } from '@/lib/imc-profiles';
+import { JobProgress, JobRunner, JobStatus } from '@/lib/job-runner';
+import { readNdjson } from '@/lib/ndjson';
+import { PRISJAKT_REQUEST_INTERVAL_MS, prisjaktSearchHost } from '@/lib/prisjakt-host';
+import { browserChannel, notifyAll } from '@/lib/notifications';
+import { bestOffer, withOffers } from '@/lib/offers';
+import type { BatchSearchLine } from '@/lib/prisjakt-search';
+import {
+  PriceSnapshot,
+  loadPriceHistories,
+  mergePriceHistories,
+  priceHistoryKey,
+  recordPriceSnapshot,
+  snapshotFromOffer,
+} from '@/lib/price-history';
+import { ImportReport } from '@/lib/import-report';
+import { MappingPreset, loadMappingPresets, saveMappingPreset } from '@/lib/mapping-presets';
+import { WatchEntry, checkWatch, findWatch, loadWatchlist, storeWatchlist, toggleWatch, updateWatch } from '@/lib/watchlist';
+import { fetchWorkerPriceHistories, pushWatchlist } from '@/lib/worker-client';
+import { BoardQVL, BoardSetOperation, applyBoardSetOperation, boardNameFromSource, mergeBoards } from '@/lib/workspace';
+import { RAMModuleWithPrice, PrisjaktProduct } from '@/types/ram';
+
+interface ImportDraft {
+  table: RawTable;
+  detected: TableMapping;
+  sourceName: string;
+  // Set when re-reviewing the mapping of a board already in the workspace
+  boardId?: string;
+}
+
+// A board QVL plus what is needed to show and re-review its import
+interface WorkspaceBoard extends BoardQVL {
+  draft: ImportDraft;
+  columnInfo: ColumnInfo;
+  report: ImportReport;
+}
+
+// Modules per batch search request in a bulk refresh
+const REFRESH_BATCH_SIZE = 20;
+
+// The part of the watchlist the page owns: which modules are starred and their targets
+function watchlistSignature(watchlist: WatchEntry[]): string {
+  return JSON.stringify(watchlist.map(entry => [entry.module, entry.targetPrice ?? null]));
+}
 
 export default function HomePage() {
   const [ramModules, setRamModules] = useState<RAMModuleWithPrice[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  // Price search status per module number, for the single-row and bulk refreshes
+  const [rowStatus, setRowStatus] = useState<Record<string, JobStatus>>({});
+  const [refreshProgress, setRefreshProgress] = useState<JobProgress | null>(null);
+  const refreshJob = useRef<JobRunner<RAMModuleWithPrice, PrisjaktProduct[]> | null>(null);
   const [apiKey, setApiKey] = useState<string>('');
   const [useMockAPI, setUseMockAPI] = useState(false);
-  const [columnInfo, setColumnInfo] = useState<{ mapped: string[], unknown: string[] } | null>(null);
+  // Every board QVL in the workspace; ramModules is their merge
+  const [boards, setBoards] = useState<WorkspaceBoard[]>([]);
+  const [activeBoardId, setActiveBoardId] = useState<string | null>(null);
+  const [isAddingBoard, setIsAddingBoard] = useState(false);
+  const [setOperation, setSetOperation] = useState<BoardSetOperation | null>(null);
+  const [population, setPopulation] = useState<PopulationTarget | null>(null);
+  const [imcProfileId, setImcProfileId] = useState<string | null>(null);
+  // Stored price snapshots by priceHistoryKey, for the trend in the Price column
+  const [priceHistories, setPriceHistories] = useState<Record<string, PriceSnapshot[]>>({});
+  // Snapshots the worker recorded, including its cron checks while this page was closed
+  const [workerHistories, setWorkerHistories] = useState<Record<string, PriceSnapshot[]>>({});
+  const shownHistories = useMemo(() => mergePriceHistories(priceHistories, workerHistories), [priceHistories, workerHistories]);
+  const [watchlist, setWatchlist] = useState<WatchEntry[]>([]);
+  // Always the latest list, for callbacks a bulk refresh holds on to for its whole run
+  const latestWatchlist = useRef<WatchEntry[]>([]);
+  // Modules and targets last sent to the worker; null until the stored list has loaded
+  const syncedWatchlist = useRef<string | null>(null);
+  // Table waiting for column-mapping review
+  const [pendingImport, setPendingImport] = useState<ImportDraft | null>(null);
+  const [mappingPresets, setMappingPresets] = useState<MappingPreset[]>([]);
+
+  // Presets live in localStorage, which is only available after mount
+  useEffect(() => {
+    setMappingPresets(loadMappingPresets());
+    const stored = loadWatchlist();
+    syncedWatchlist.current = watchlistSignature(stored);
+    latestWatchlist.current = stored;
+    setWatchlist(stored);
+  }, []);
+
+  // Starring, unstarring and target changes go to the worker for its cron; price updates do not
+  useEffect(() => {
+    const signature = watchlistSignature(watchlist);
+    if (syncedWatchlist.current === null || syncedWatchlist.current === signature) return;
+    syncedWatchlist.current = signature;
+    pushWatchlist(watchlist).catch(err => console.error('Error syncing watchlist:', err));
+  }, [watchlist]);
+
+  const changeWatchlist = useCallback((update: (prev: WatchEntry[]) => WatchEntry[]) => {
+    const next = update(latestWatchlist.current);
+    latestWatchlist.current = next;
+    storeWatchlist(next);
+    setWatchlist(next);
+  }, []);
+  const handleToggleWatch = useCallback(
+    (module: string) => changeWatchlist(prev => toggleWatch(prev, module)),
+    [changeWatchlist]
+  );
+  const handleTargetPriceChange = useCallback(
+    (module: string, targetPrice: number | undefined) => changeWatchlist(prev => updateWatch(prev, module, { targetPrice })),
+    [changeWatchlist]
+  );
+
+  // History from earlier sessions for every module in the workspace
+  const moduleNumbers = useMemo(() => ramModules.map(m => m.module).join('\n'), [ramModules]);
+  useEffect(() => {
+    if (!moduleNumbers) return;
+    const modules = moduleNumbers.split('\n');
+    loadPriceHistories(modules).then(setPriceHistories);
+    fetchWorkerPriceHistories(modules)
+      .then(setWorkerHistories)
+      .catch(err => console.error('Error loading worker price history:', err));
+  }, [moduleNumbers]);
+
+  const rememberPrice = useCallback(async (moduleNumber: string, products: PrisjaktProduct[]) => {
+    const watched = findWatch(latestWatchlist.current, moduleNumber);
+    if (watched) {
+      const { alerts, entry } = checkWatch(watched, products);
+      // Only the last seen state; targets and membership may change while a refresh runs
+      const seen = { lastPrice: entry.lastPrice, lastAvailability: entry.lastAvailability };
+      changeWatchlist(prev => updateWatch(prev, moduleNumber, seen));
+      await notifyAll([browserChannel()], alerts);
+    }
+
+    const best = bestOffer(products);
+    if (!best) return;
+    const history = await recordPriceSnapshot(moduleNumber, snapshotFromOffer(best));
+    if (history) setPriceHistories(prev => ({ ...prev, [priceHistoryKey(moduleNumber)]: history }));
+  }, [changeWatchlist]);
+
+  // The mock setting only withholds the key; the server then scrapes Prisjakt instead
+  const searchApiKey = useMockAPI ? undefined : apiKey || undefined;
 
   // Server helper: calls API route, which scrapes when no key is provided
   const serverSearch = useCallback(async (moduleNumber: string): Promise<PrisjaktProduct[]> => {
     const res = await fetch('/api/prisjakt/search', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ moduleNumber, apiKey: useMockAPI ? undefined : apiKey || undefined }),
+      body: JSON.stringify({ moduleNumber, apiKey: searchApiKey }),
     });
-    if (!res.ok) return [];
+    if (!res.ok) throw new Error(`Price search failed (${res.status})`);
     const data = await res.json();
     return (data.products || []) as PrisjaktProduct[];
-  }, [apiKey, useMockAPI]);
-
-  const handleDataParsed = useCallback((data: RAMModule[], columnInfo?: { mapped: string[], unknown: string[] }) => {
-    const modulesWithPrice: RAMModuleWithPrice[] = data.map(module => ({
-      ...module,
-      price: undefined,
-      currency: undefined,
-      availability: undefined,
-      store: undefined,
-      storeUrl: undefined,
-      lastUpdated: undefined,
-    }));
-    
-    setRamModules(modulesWithPrice);
-    setColumnInfo(columnInfo || null);
+  }, [searchApiKey]);
+
+  // Batch helper: one request for many modules, results streamed back as each search resolves
+  const batchSearch = useCallback(async (
+    moduleNumbers: string[],
+    signal: AbortSignal,
+    onResult: (moduleNumber: string, result: PrisjaktProduct[] | Error) => void
+  ) => {
+    const res = await fetch('/api/prisjakt/search/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ moduleNumbers, apiKey: searchApiKey }),
+      signal,
+    });
+    if (!res.ok || !res.body) throw new Error(`Batch price search failed (${res.status})`);
+    await readNdjson<BatchSearchLine>(res.body, ({ requested, products, error }) => {
+      for (const moduleNumber of requested) onResult(moduleNumber, products ?? new Error(error));
+    });
+  }, [searchApiKey]);
+
+  const updateBoards = useCallback((next: WorkspaceBoard[]) => {
+    // Board selections in the comparison no longer line up once boards come or go
+    if (next.map(b => b.id).join() !== boards.map(b => b.id).join()) {
+      setSetOperation(null);
+      setPopulation(prev => (prev?.boardIds ? { ...prev, boardIds: undefined } : prev));
+    }
+    setBoards(next);
+    setRamModules(prev => mergeBoards(next, prev));
+  }, [boards]);
+
+  const handleTableLoaded = useCallback((table: RawTable, sourceName: string) => {
+    setPendingImport({ table, detected: detectTableMapping(table, mappingPresets), sourceName });
     setError(null);
-    
-    let successMessage = `Successfully loaded ${data.length} RAM modules from CSV`;
-    if (columnInfo) {
-      if (columnInfo.unknown.length > 0) {
-        successMessage += `. Found ${columnInfo.unknown.length} additional columns: ${columnInfo.unknown.join(', ')}`;
-      }
+    setSuccess(null);
+  }, [mappingPresets]);
+
+  const handleMappingConfirmed = useCallback((result: ImportResult, presetName: string | null) => {
+    if (!pendingImport) return;
+    const { mapping, columnInfo, report } = result;
+    if (presetName !== null) {
+      setMappingPresets(prev => saveMappingPreset(prev, pendingImport.table.columns, mapping, presetName));
+    }
+
+    const existing = boards.find(b => b.id === pendingImport.boardId);
+    const board: WorkspaceBoard = {
+      id: existing?.id ?? `board-${Date.now()}`,
+      name: existing?.name ?? boardNameFromSource(pendingImport.sourceName),
+      modules: result.modules,
+      draft: {
+        ...pendingImport,
+        detected: presetName !== null ? { mapping, source: 'preset', presetName } : { ...pendingImport.detected, mapping },
+      },
+      columnInfo,
+      report,
+    };
+    updateBoards(existing ? boards.map(b => (b.id === existing.id ? board : b)) : [...boards, board]);
+    setActiveBoardId(board.id);
+    setIsAddingBoard(false);
+    setError(null);
+
+    let successMessage = `Loaded ${result.modules.length} RAM modules for ${board.name}`;
+    if (columnInfo.profile) {
+      successMessage += ` (no header row, read as ${columnInfo.profile})`;
+    }
+    if (columnInfo.unknown.length > 0) {
+      successMessage += `. Found ${columnInfo.unknown.length} additional columns: ${columnInfo.unknown.join(', ')}`;
+    }
+    if (report.importedRows < report.totalRows) {
+      successMessage += `. ${report.totalRows - report.importedRows} rows were skipped; see the import report below`;
     }
     setSuccess(successMessage);
+    setPendingImport(null);
+  }, [pendingImport, boards, updateBoards]);
+
+  const handleRenameBoard = useCallback((id: string, name: string) => {
+    setBoards(prev => prev.map(b => (b.id === id ? { ...b, name } : b)));
   }, []);
 
+  const handleRemoveBoard = useCallback((id: string) => {
+    updateBoards(boards.filter(b => b.id !== id));
+    if (activeBoardId === id) setActiveBoardId(null);
+    setSuccess(null);
+  }, [boards, activeBoardId, updateBoards]);
+
+  const activeBoard = boards.find(b => b.id === activeBoardId) ?? boards[boards.length - 1] ?? null;
+
+  const tableModules = useMemo(() => {
+    const modules = setOperation ? applyBoardSetOperation(ramModules, boards, setOperation) : ramModules;
+    return population ? filterByPopulation(modules, population) : modules;
+  }, [ramModules, boards, setOperation, population]);
+
   const handleError = useCallback((errorMessage: string) => {
     setError(errorMessage);
     setSuccess(null);
   }, []);
 
+  const setModuleStatus = useCallback((moduleNumber: string, status: JobStatus) => {
+    setRowStatus(prev => ({ ...prev, [moduleNumber]: status }));
+  }, []);
+
+  const applyProducts = useCallback((moduleNumber: string, products: PrisjaktProduct[]) => {
+    setRamModules(prev => prev.map(m => (m.module === moduleNumber ? withOffers(m, products) : m)));
+    rememberPrice(moduleNumber, products).catch(err => console.error('Error storing price history:', err));
+  }, [rememberPrice]);
+
   const handleRefreshPrices = useCallback(async (moduleNumber: string) => {
-    setIsLoading(true);
+    setModuleStatus(moduleNumber, 'searching');
     try {
       const products = await serverSearch(moduleNumber);
-      
-      if (products.length > 0) {
-        // Find the best price (lowest available price)
-        const bestProduct = products
-          .filter(p => p.availability)
-          .sort((a, b) => a.price - b.price)[0] || products[0];
-
-        setRamModules(prev => prev.map(module => 
-          module.module === moduleNumber 
-            ? {
-                ...module,
-                price: bestProduct.price,
-                currency: bestProduct.currency,
-                availability: bestProduct.availability,
-                store: bestProduct.store,
-                storeUrl: bestProduct.storeUrl,
-                lastUpdated: new Date(),
-              }
-            : module
-        ));
-      }
+      if (products.length > 0) applyProducts(moduleNumber, products);
+      setModuleStatus(moduleNumber, products.length > 0 ? 'found' : 'not_found');
     } catch (error) {
       console.error('Error fetching price:', error);
-    } finally {
-      setIsLoading(false);
+      setModuleStatus(moduleNumber, 'error');
     }
-  }, [serverSearch]);
+  }, [serverSearch, applyProducts, setModuleStatus]);
 
   const handleRefreshAllPrices = useCallback(async (modulesToRefresh: RAMModuleWithPrice[]) => {
-    setIsLoading(true);
-    try {
-      // Process each module sequentially to update UI as results come in
-      for (let i = 0; i < modulesToRefresh.length; i++) {
-        const module = modulesToRefresh[i];
-        
-        try {
-          const products = await serverSearch(module.module);
-          
-          if (products.length > 0) {
-            const bestProduct = products
-              .filter(p => p.availability === 'in_stock')
-              .sort((a, b) => a.price - b.price)[0] || products[0];
-            
-            // Update this specific module immediately
-            setRamModules((prev) => 
-              prev.map((m) => 
-                m.module === module.module
-                  ? {
-                      ...m,
-                      price: bestProduct.price,
-                      currency: bestProduct.currency,
-                      availability: bestProduct.availability,
-                      store: bestProduct.store,
-                      storeUrl: bestProduct.storeUrl,
-                      lastUpdated: new Date(),
-                    }
-                  : m
-              )
-            );
-          } else {
-            // Mark as not found if no products returned
-            setRamModules((prev) => 
-              prev.map((m) => 
-                m.module === module.module
-                  ? {
-                      ...m,
-                      price: undefined,
-                      store: 'Not Found',
-                      lastUpdated: new Date(),
-                    }
-                  : m
-              )
-            );
-          }
-        } catch (err) {
-          // Mark individual failures as not found
-          setRamModules((prev) => 
-            prev.map((m) => 
-              m.module === module.module
-                ? {
-                    ...m,
-                    price: undefined,
-                    store: 'Not Found',
-                    lastUpdated: new Date(),
-                  }
-                : m
-            )
-          );
-        }
-      }
-      
-      setSuccess(`${modulesToRefresh.length} prices refreshed successfully`);
-    } catch (error) {
+    if (refreshJob.current) return;
+    // The batch route limits concurrency within a batch; here batches go one at a time so pause
+    // and cancel take effect between them, spaced like any other request to that host
+    const host = prisjaktSearchHost(searchApiKey);
+    const runner = new JobRunner<RAMModuleWithPrice, PrisjaktProduct[]>(modulesToRefresh, {
+      keyOf: m => m.module,
+      runBatch: (modules, signal, report) => {
+        const byNumber = new Map(modules.map(m => [m.module, m]));
+        return batchSearch(Array.from(byNumber.keys()), signal, (moduleNumber, result) => {
+          const module = byNumber.get(moduleNumber);
+          if (module) report(module, result);
+        });
+      },
+      batchSize: REFRESH_BATCH_SIZE,
+      concurrency: 1,
+      hostOf: () => host,
+      hostIntervalMs: PRISJAKT_REQUEST_INTERVAL_MS,
+      statusOf: products => (products.length > 0 ? 'found' : 'not_found'),
+      onJobUpdate: (moduleNumber, status, products) => {
+        setModuleStatus(moduleNumber, status);
+        // No offers marks the module as not found
+        if (products) applyProducts(moduleNumber, products);
+      },
+      onProgress: setRefreshProgress,
+    });
+    refreshJob.current = runner;
+    setError(null);
+    setSuccess(null);
+
+    const { state, total, completed, counts } = await runner.start();
+    refreshJob.current = null;
+    setRefreshProgress(null);
+    // Rows a cancelled run never reached lose their queued marker
+    setRowStatus(prev => Object.fromEntries(Object.entries(prev).filter(([, status]) => status !== 'queued')));
+
+    const summary = `${counts.found} found, ${counts.not_found} not found${counts.error ? `, ${counts.error} failed` : ''}`;
+    if (state === 'cancelled') {
+      setSuccess(`Refresh cancelled after ${completed} of ${total} modules (${summary})`);
+    } else if (counts.error === completed && completed > 0) {
       setError('Error refreshing prices. Please try again.');
-    } finally {
-      setIsLoading(false);
+    } else {
+      setSuccess(`${completed} prices refreshed: ${summary}`);
     }
-  }, [serverSearch]);
+  }, [batchSearch, searchApiKey, applyProducts, setModuleStatus]);
 
   return (
     <div className="space-y-8">
@@ -226,62 +395,166 @@ export default function HomePage() {
       )}
 
       {/* CSV Upload */}
-      {ramModules.length === 0 && (
+      {(boards.length === 0 || isAddingBoard) && !pendingImport && (
         <div className="bg-white p-6 rounded-lg shadow">
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">Upload Motherboard RAM List</h2>
-          <CSVUpload onDataParsed={handleDataParsed} onError={handleError} />
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              {boards.length === 0 ? 'Upload Motherboard RAM List' : 'Add Another Board QVL'}
+            </h2>
+            {isAddingBoard && (
+              <button type="button" onClick={() => setIsAddingBoard(false)} className="btn-secondary">
+                Cancel
+              </button>
+            )}
+          </div>
+          <CSVUpload onTableLoaded={handleTableLoaded} onError={handleError} />
+          <div className="w-full max-w-2xl mx-auto mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <PasteImport onTableLoaded={handleTableLoaded} onError={handleError} />
+            <UrlImport onTableLoaded={handleTableLoaded} onError={handleError} />
+          </div>
+          <MappingPresetManager presets={mappingPresets} onChange={setMappingPresets} onError={handleError} />
         </div>
       )}
 
+      {/* Column Mapping Review */}
+      {pendingImport && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <ColumnMappingReview
+            key={`${pendingImport.boardId ?? 'new'}-${pendingImport.sourceName}-${pendingImport.table.rows.length}`}
+            table={pendingImport.table}
+            detected={pendingImport.detected}
+            sourceName={pendingImport.sourceName}
+            onConfirm={handleMappingConfirmed}
+            onCancel={() => setPendingImport(null)}
+            onError={handleError}
+          />
+        </div>
+      )}
+
+      {/* Workspace Boards */}
+      {boards.length > 0 && !pendingImport && (
+        <BoardList
+          boards={boards}
+          activeBoardId={activeBoard?.id ?? null}
+          onSelect={setActiveBoardId}
+          onRename={handleRenameBoard}
+          onEditMapping={(id) => {
+            const board = boards.find(b => b.id === id);
+            if (board) setPendingImport({ ...board.draft, boardId: id });
+          }}
+          onRemove={handleRemoveBoard}
+        />
+      )}
+
       {/* RAM Table */}
-      {ramModules.length > 0 && (
+      {ramModules.length > 0 && !pendingImport && (
         <div className="bg-white p-6 rounded-lg shadow">
           <div className="flex items-center justify-between mb-6">
             <div>
               <h2 className="text-lg font-semibold text-gray-900">RAM Modules</h2>
               <p className="text-sm text-gray-600 mt-1">
-                {ramModules.length} modules loaded • Click "Find Price" to search for prices
+                {ramModules.length} modules from {boards.length} {boards.length === 1 ? 'board' : 'boards'} • Click "Find Price" to search for prices
               </p>
             </div>
             
             <div className="flex items-center space-x-3">
               <button
+                type="button"
+                onClick={() => setIsAddingBoard(true)}
+                disabled={isAddingBoard}
+                className="btn-secondary flex items-center gap-1 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                Add Board QVL
+              </button>
+              <button
+                type="button"
                 onClick={() => {
-                  setRamModules([]);
-                  setColumnInfo(null);
+                  updateBoards([]);
+                  setActiveBoardId(null);
+                  setIsAddingBoard(false);
                   setError(null);
                   setSuccess(null);
                 }}
                 className="btn-secondary"
               >
-                Upload New File
+                Clear Workspace
               </button>
             </div>
           </div>
 
+          {boards.length > 1 && (
+            <BoardSetPanel
+              boards={boards}
+              operation={setOperation}
+              onChange={setSetOperation}
+              resultCount={tableModules.length}
+            />
+          )}
+
+          <CompatibilityAdvisor
+            boards={boards}
+            target={population}
+            onChange={setPopulation}
+            imcProfileId={imcProfileId}
+            onImcProfileChange={setImcProfileId}
+            resultCount={tableModules.length}
+          />
+
+          <BuildPlanner modules={tableModules} />
+
+          <WatchlistPanel
+            watchlist={watchlist}
+            onToggleWatch={handleToggleWatch}
+            onTargetPriceChange={handleTargetPriceChange}
+          />
+
+          {refreshProgress && (
+            <RefreshProgress
+              progress={refreshProgress}
+              onPause={() => refreshJob.current?.pause()}
+              onResume={() => refreshJob.current?.resume()}
+              onCancel={() => refreshJob.current?.cancel()}
+            />
+          )}
+
           <RAMTable
-            data={ramModules}
+            data={tableModules}
+            boards={boards}
+            population={population}
+            imcProfile={findImcProfile(imcProfileId)}
+            priceHistories={shownHistories}
+            watchlist={watchlist}
+            onToggleWatch={handleToggleWatch}
             onRefreshPrices={handleRefreshPrices}
             onRefreshAllPrices={handleRefreshAllPrices}
-            isLoading={isLoading}
+            rowStatus={rowStatus}
+            isRefreshing={refreshProgress !== null}
           />
 
+          {activeBoard && <ImportReportPanel report={activeBoard.report} />}
+
           {/* Column Information */}
-          {columnInfo && (
+          {activeBoard && (
             <div className="mt-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
-              <h3 className="text-sm font-medium text-blue-900 mb-2">CSV Column Detection</h3>
+              <h3 className="text-sm font-medium text-blue-900 mb-2">CSV Column Detection: {activeBoard.name}</h3>
+              {activeBoard.columnInfo.profile && (
+                <p className="text-xs text-blue-700 mb-2">
+                  No header row found; columns were assigned by position using the {activeBoard.columnInfo.profile} profile.
+                </p>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
                 <div>
-                  <h4 className="font-medium text-blue-800 mb-1">Mapped Columns ({columnInfo.mapped.length})</h4>
+                  <h4 className="font-medium text-blue-800 mb-1">Mapped Columns ({activeBoard.columnInfo.mapped.length})</h4>
                   <p className="text-blue-700">
-                    {columnInfo.mapped.length > 0 ? columnInfo.mapped.join(', ') : 'None detected'}
+                    {activeBoard.columnInfo.mapped.length > 0 ? activeBoard.columnInfo.mapped.join(', ') : 'None detected'}
                   </p>
                 </div>
-                {columnInfo.unknown.length > 0 && (
+                {activeBoard.columnInfo.unknown.length > 0 && (
                   <div>
-                    <h4 className="font-medium text-blue-800 mb-1">Additional Columns ({columnInfo.unknown.length})</h4>
+                    <h4 className="font-medium text-blue-800 mb-1">Additional Columns ({activeBoard.columnInfo.unknown.length})</h4>
                     <p className="text-blue-700">
-                      {columnInfo.unknown.join(', ')}
+                      {activeBoard.columnInfo.unknown.join(', ')}
                     </p>
                     <p className="text-xs text-blue-600 mt-1">
                       These columns are preserved and displayed in the table
@@ -0,0 +1,66 @@
+'use client';
+
+import { Cpu, Settings2, Trash2 } from 'lucide-react';
+import { BoardQVL } from '@/lib/workspace';
+
+interface BoardListProps {
+  boards: BoardQVL[];
+  activeBoardId: string | null;
+  onSelect: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onEditMapping: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+// The board QVLs merged into the workspace; the active board's import details show below the table
+export default function BoardList({
+  boards,
+  activeBoardId,
+  onSelect,
+  onRename,
+  onEditMapping,
+  onRemove,
+}: BoardListProps) {
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Boards ({boards.length})</h2>
+      <ul className="divide-y divide-gray-100">
+        {boards.map((board) => (
+          <li key={board.id} className="flex items-center gap-3 py-2">
+            <button
+              type="button"
+              onClick={() => onSelect(board.id)}
+              title="Show import details"
+              className={`p-1 rounded ${board.id === activeBoardId ? 'text-blue-600 bg-blue-50' : 'text-gray-400 hover:text-gray-600'}`}
+            >
+              <Cpu className="h-4 w-4" />
+            </button>
+            <input
+              value={board.name}
+              onChange={(e) => onRename(board.id, e.target.value)}
+              aria-label="Board name"
+              className="input-field py-1 text-sm flex-1 max-w-sm"
+            />
+            <span className="text-xs text-gray-500 w-24">{board.modules.length} modules</span>
+            <button
+              type="button"
+              onClick={() => onEditMapping(board.id)}
+              className="btn-secondary text-xs py-1 px-2 flex items-center gap-1"
+            >
+              <Settings2 className="h-3 w-3" />
+              Edit Mapping
+            </button>
+            <button
+              type="button"
+              onClick={() => onRemove(board.id)}
+              className="text-gray-400 hover:text-red-600"
+              aria-label={`Remove ${board.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { GitCompare } from 'lucide-react';
+import { BoardQVL, BoardSetOperation } from '@/lib/workspace';
+
+interface BoardSetPanelProps {
+  boards: BoardQVL[];
+  operation: BoardSetOperation | null;
+  onChange: (operation: BoardSetOperation | null) => void;
+  resultCount: number;
+}
+
+type OperationKind = BoardSetOperation['kind'] | 'none';
+
+// Picks a set operation over the workspace boards; the page applies it to the table data
+export default function BoardSetPanel({ boards, operation, onChange, resultCount }: BoardSetPanelProps) {
+  const allIds = boards.map(b => b.id);
+  const kind: OperationKind = operation?.kind ?? 'none';
+
+  const handleKindChange = (next: OperationKind) => {
+    const [first, second] = allIds;
+    if (next === 'none') onChange(null);
+    if (next === 'all') onChange({ kind: 'all', boardIds: allIds });
+    if (next === 'only') onChange({ kind: 'only', boardId: first, boardIds: allIds });
+    if (next === 'difference') onChange({ kind: 'difference', include: first, exclude: second });
+  };
+
+  const toggleBoard = (id: string, checked: boolean) => {
+    if (!operation || operation.kind === 'difference') return;
+    const boardIds = checked
+      ? allIds.filter(b => b === id || operation.boardIds.includes(b))
+      : operation.boardIds.filter(b => b !== id);
+    onChange({ ...operation, boardIds });
+  };
+
+  const boardSelect = (value: string, onSelect: (id: string) => void, label: string) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(e.target.value)}
+      aria-label={label}
+      className="input-field py-1 text-sm"
+    >
+      {boards.map(b => (
+        <option key={b.id} value={b.id}>{b.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="mb-4 p-4 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center text-sm font-medium text-gray-900">
+          <GitCompare className="h-4 w-4 mr-2 text-gray-500" />
+          Compare Boards
+        </div>
+        <select
+          value={kind}
+          onChange={(e) => handleKindChange(e.target.value as OperationKind)}
+          className="input-field py-1 text-sm"
+        >
+          <option value="none">All modules</option>
+          <option value="all">Supported on all selected boards</option>
+          <option value="only">Only on one board</option>
+          <option value="difference">On one board but not another</option>
+        </select>
+
+        {operation?.kind === 'only' && (
+          <>
+            <span className="text-sm text-gray-600">Only on</span>
+            {boardSelect(operation.boardId, id => onChange({ ...operation, boardId: id }), 'Board')}
+          </>
+        )}
+        {operation?.kind === 'difference' && (
+          <>
+            <span className="text-sm text-gray-600">On</span>
+            {boardSelect(operation.include, id => onChange({ ...operation, include: id }), 'Supported on')}
+            <span className="text-sm text-gray-600">but not</span>
+            {boardSelect(operation.exclude, id => onChange({ ...operation, exclude: id }), 'Not supported on')}
+          </>
+        )}
+
+        {operation && (
+          <span className="text-sm text-gray-500 ml-auto">{resultCount} modules match</span>
+        )}
+      </div>
+
+      {(operation?.kind === 'all' || operation?.kind === 'only') && (
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="text-xs text-gray-500">Selected boards:</span>
+          {boards.map(b => (
+            <label key={b.id} className="flex items-center gap-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={operation.boardIds.includes(b.id)}
+                onChange={(e) => toggleBoard(b.id, e.target.checked)}
+              />
+              {b.name}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Part numbers are compared without revision suffixes such as &quot;ver 5.53.13&quot;.
+      </p>
+    </div>
+  );
+}
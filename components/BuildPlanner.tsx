@@ -0,0 +1,163 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, ShoppingCart } from 'lucide-react';
+import { BuildRequirements, planBuilds } from '@/lib/build-planner';
+import { RAMModuleWithPrice } from '@/types/ram';
+
+interface BuildPlannerProps {
+  modules: RAMModuleWithPrice[];
+}
+
+const MAX_OPTIONS = 20;
+
+// Turns a target build into ranked kit options from the priced modules in the table
+export default function BuildPlanner({ modules }: BuildPlannerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [requirements, setRequirements] = useState<BuildRequirements>({ capacityGB: 64, slots: 2, profile: 'any' });
+
+  const options = useMemo(() => planBuilds(modules, requirements), [modules, requirements]);
+  const pricedCount = useMemo(() => modules.filter(m => m.price).length, [modules]);
+
+  const update = (patch: Partial<BuildRequirements>) => setRequirements(prev => ({ ...prev, ...patch }));
+  const optionalNumber = (value: string) => (value ? Number(value) : undefined);
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between p-4">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center text-sm font-medium text-gray-900"
+        >
+          {isOpen ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+          <ShoppingCart className="h-4 w-4 mr-2 text-gray-500" />
+          Build Planner
+        </button>
+        {isOpen && (
+          <span className="text-sm text-gray-500">
+            {options.length} options from {pricedCount} priced modules
+          </span>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <label className="text-xs text-gray-600">
+              Capacity (GB)
+              <input
+                type="number"
+                min={8}
+                step={8}
+                value={requirements.capacityGB}
+                onChange={(e) => update({ capacityGB: Number(e.target.value) || 0 })}
+                className="input-field py-1 text-sm mt-1"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Free slots
+              <select
+                value={requirements.slots}
+                onChange={(e) => update({ slots: Number(e.target.value) })}
+                className="input-field py-1 text-sm mt-1"
+              >
+                {[1, 2, 4].map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Min speed (MT/s)
+              <input
+                type="number"
+                step={200}
+                value={requirements.minSpeed ?? ''}
+                onChange={(e) => update({ minSpeed: optionalNumber(e.target.value) })}
+                placeholder="Any"
+                className="input-field py-1 text-sm mt-1"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Profile
+              <select
+                value={requirements.profile}
+                onChange={(e) => update({ profile: e.target.value as BuildRequirements['profile'] })}
+                className="input-field py-1 text-sm mt-1"
+              >
+                <option value="any">Any</option>
+                <option value="xmp">XMP</option>
+                <option value="expo">EXPO</option>
+              </select>
+            </label>
+            <label className="text-xs text-gray-600">
+              Budget
+              <input
+                type="number"
+                step={100}
+                value={requirements.budget ?? ''}
+                onChange={(e) => update({ budget: optionalNumber(e.target.value) })}
+                placeholder="No limit"
+                className="input-field py-1 text-sm mt-1"
+              />
+            </label>
+          </div>
+
+          {options.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No priced kits match. Fetch prices in the table below or loosen the requirements.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="table-header">Module</th>
+                    <th className="table-header">Buy</th>
+                    <th className="table-header">Speed</th>
+                    <th className="table-header">CL</th>
+                    <th className="table-header">Die Type</th>
+                    <th className="table-header">Total Price</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {options.slice(0, MAX_OPTIONS).map(({ module, kits, sticks, totalPrice, currency, warnings }) => (
+                    <tr key={module.workspaceKey ?? module.module}>
+                      <td className="table-cell">
+                        <div className="font-mono text-gray-900">{module.module}</div>
+                        <div className="text-xs text-gray-500">{module.vendor}</div>
+                      </td>
+                      <td className="table-cell text-gray-700">
+                        {kits > 1 ? `${kits} × kit` : '1 kit'} ({sticks} × {module.perStickSizeGB}GB)
+                      </td>
+                      <td className="table-cell text-gray-700">
+                        <span className="flex items-center gap-1">
+                          {module.ramSpeed}
+                          {warnings.length > 0 && (
+                            <span title={warnings.join('\n')}>
+                              <AlertTriangle className="h-3 w-3 text-amber-500" />
+                            </span>
+                          )}
+                        </span>
+                      </td>
+                      <td className="table-cell text-gray-700">{module.casLatency ?? '-'}</td>
+                      <td className="table-cell text-gray-700">{module.chip}</td>
+                      <td className="table-cell font-medium text-gray-900">
+                        {totalPrice.toLocaleString()} {currency ?? ''}
+                        {kits > 1 && module.price && (
+                          <div className="text-xs text-gray-500">
+                            {module.price.toLocaleString()} {currency ?? ''} per kit
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
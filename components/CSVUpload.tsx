@@ -1,64 +1,63 @@
 'use client';
 
 import { useCallback, useState } from 'react';
-import { Upload, FileText, AlertCircle } from 'lucide-react';
+import { Upload, FileText, AlertCircle, Sheet } from 'lucide-react';
 import Papa, { ParseResult, ParseError, LocalFile } from 'papaparse';
-import { RAMModule } from '@/types/ram';
-import { detectColumnMapping, parseCSVData } from '@/lib/csv-parser';
+import type { WorkBook } from 'xlsx';
+import TablePreview from '@/components/TablePreview';
+import { RawTable, buildRawTable } from '@/lib/csv-parser';
+import { extractPdfTable } from '@/lib/pdf-table';
+import {
+  SheetSummary,
+  delimiterForFile,
+  getImportFileKind,
+  importFileAccept,
+  readWorkbook,
+  sheetToCells,
+  summarizeSheets,
+} from '@/lib/spreadsheet';
 
 interface CSVUploadProps {
-  onDataParsed: (data: RAMModule[], columnInfo?: { mapped: string[], unknown: string[] }) => void;
+  onTableLoaded: (table: RawTable, fileName: string) => void;
   onError: (error: string) => void;
 }
 
-export default function CSVUpload({ onDataParsed, onError }: CSVUploadProps) {
+export default function CSVUpload({ onTableLoaded, onError }: CSVUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Multi-sheet workbook waiting for the user to pick a sheet
+  const [pendingWorkbook, setPendingWorkbook] = useState<{
+    fileName: string;
+    workbook: WorkBook;
+    sheets: SheetSummary[];
+  } | null>(null);
+  // Cells extracted from a PDF, shown for a sanity check before column mapping
+  const [pendingPreview, setPendingPreview] = useState<{ fileName: string; cells: string[][] } | null>(null);
+
+  const emitCells = useCallback((cells: string[][], sourceName: string) => {
+    // Build keyed rows; headerless QVL dumps get a positional profile
+    const table = buildRawTable(cells);
+
+    if (table.rows.length === 0) {
+      onError(`${sourceName} appears to be empty or has no valid data rows.`);
+      return;
+    }
+
+    // Column mapping is reviewed by the user before any rows are imported
+    onTableLoaded(table, sourceName);
+  }, [onTableLoaded, onError]);
 
   const parseCSV = useCallback((file: File) => {
     setIsProcessing(true);
     
     (Papa as any).parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results: ParseResult<any>) => {
+      header: false,
+      delimiter: delimiterForFile(file.name),
+      // Keep blank lines so row positions match source line numbers in the import report
+      skipEmptyLines: false,
+      complete: (results: ParseResult<string[]>) => {
         try {
-          const data = results.data as any[];
-          
-          if (data.length === 0) {
-            onError('CSV file appears to be empty or has no valid data rows.');
-            return;
-          }
-
-          // Get the first row to analyze column structure
-          const firstRow = data[0];
-          const columns = Object.keys(firstRow);
-          
-          // Intelligent column mapping with fuzzy matching
-          const columnMap = detectColumnMapping(columns);
-          
-          // Validate that we have essential columns
-          if (!columnMap.module || !columnMap.vendor) {
-            onError(`Missing essential columns. Found: ${columns.join(', ')}. Required: Module and Vendor columns.`);
-            return;
-          }
-
-          // Transform the data using detected column mapping (includes unknown columns)
-          const ramModules = parseCSVData(data, columnMap);
-
-          if (ramModules.length === 0) {
-            onError('No valid RAM modules found in the CSV file. Please check that Module and Vendor columns contain data.');
-            return;
-          }
-
-          // Prepare column information for display
-          const mappedColumns = Object.values(columnMap).filter(col => col && !columnMap.unknown.includes(col)) as string[];
-          const columnInfo = {
-            mapped: mappedColumns,
-            unknown: columnMap.unknown
-          };
-
-          onDataParsed(ramModules, columnInfo);
+          emitCells(results.data as string[][], file.name);
         } catch (error) {
           onError(`Error parsing CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
         } finally {
@@ -70,15 +69,62 @@ export default function CSVUpload({ onDataParsed, onError }: CSVUploadProps) {
         setIsProcessing(false);
       }
     });
-  }, [onDataParsed, onError]);
+  }, [emitCells, onError]);
+
+  const loadSheet = useCallback((fileName: string, workbook: WorkBook, sheetName: string) => {
+    setPendingWorkbook(null);
+    const label = workbook.SheetNames.length > 1 ? `${fileName} › ${sheetName}` : fileName;
+    emitCells(sheetToCells(workbook, sheetName), label);
+  }, [emitCells]);
+
+  const parseSpreadsheet = useCallback(async (file: File) => {
+    setIsProcessing(true);
+    try {
+      const workbook = readWorkbook(await file.arrayBuffer());
+      const sheets = summarizeSheets(workbook).filter(sheet => sheet.rowCount > 0);
+
+      if (sheets.length === 0) {
+        onError('The workbook has no sheets with data.');
+      } else if (sheets.length === 1) {
+        loadSheet(file.name, workbook, sheets[0].name);
+      } else {
+        setPendingWorkbook({ fileName: file.name, workbook, sheets });
+      }
+    } catch (error) {
+      onError(`Error reading spreadsheet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [loadSheet, onError]);
+
+  const parsePDF = useCallback(async (file: File) => {
+    setIsProcessing(true);
+    try {
+      const cells = await extractPdfTable(await file.arrayBuffer());
+      if (cells.length === 0) {
+        onError('No table found in the PDF. Scanned PDFs without a text layer are not supported.');
+        return;
+      }
+      setPendingPreview({ fileName: file.name, cells });
+    } catch (error) {
+      onError(`Error reading PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [onError]);
 
   const handleFileSelect = useCallback((file: File) => {
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      onError('Please select a CSV file.');
-      return;
+    const kind = getImportFileKind(file.name);
+    if (kind === 'spreadsheet') {
+      parseSpreadsheet(file);
+    } else if (kind === 'pdf') {
+      parsePDF(file);
+    } else if (kind === 'delimited') {
+      parseCSV(file);
+    } else {
+      onError('Please select a CSV, TSV, XLSX, XLS, ODS or PDF file.');
     }
-    parseCSV(file);
-  }, [parseCSV, onError]);
+  }, [parseCSV, parseSpreadsheet, parsePDF, onError]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -107,6 +153,58 @@ export default function CSVUpload({ onDataParsed, onError }: CSVUploadProps) {
     }
   }, [handleFileSelect]);
 
+  if (pendingPreview) {
+    return (
+      <div className="w-full max-w-4xl mx-auto">
+        <TablePreview
+          title="PDF Table Preview"
+          description={`Rows extracted from ${pendingPreview.fileName}. Title and footer lines have been dropped.`}
+          cells={pendingPreview.cells}
+          onContinue={() => {
+            setPendingPreview(null);
+            emitCells(pendingPreview.cells, pendingPreview.fileName);
+          }}
+          onCancel={() => setPendingPreview(null)}
+        />
+      </div>
+    );
+  }
+
+  if (pendingWorkbook) {
+    return (
+      <div className="w-full max-w-2xl mx-auto">
+        <div className="border border-gray-200 rounded-lg p-6">
+          <h3 className="text-lg font-medium text-gray-900">Choose a Sheet</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            {pendingWorkbook.fileName} has {pendingWorkbook.sheets.length} sheets with data. Which one holds the memory QVL?
+          </p>
+          <ul className="mt-4 divide-y divide-gray-100">
+            {pendingWorkbook.sheets.map((sheet) => (
+              <li key={sheet.name}>
+                <button
+                  type="button"
+                  onClick={() => loadSheet(pendingWorkbook.fileName, pendingWorkbook.workbook, sheet.name)}
+                  className="w-full flex items-center justify-between py-2 px-2 text-left hover:bg-gray-50 rounded"
+                >
+                  <span className="flex items-center text-sm text-gray-800">
+                    <Sheet className="h-4 w-4 mr-2 text-green-600" />
+                    {sheet.name}
+                  </span>
+                  <span className="text-xs text-gray-500">{sheet.rowCount} rows</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-4 flex justify-end">
+            <button type="button" onClick={() => setPendingWorkbook(null)} className="btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="w-full max-w-2xl mx-auto">
       <div
@@ -128,21 +226,21 @@ export default function CSVUpload({ onDataParsed, onError }: CSVUploadProps) {
           
           <div>
             <h3 className="text-lg font-medium text-gray-900">
-              {isProcessing ? 'Processing CSV...' : 'Upload Motherboard RAM List'}
+              {isProcessing ? 'Processing file...' : 'Upload Motherboard RAM List'}
             </h3>
             <p className="text-sm text-gray-500 mt-1">
-              Drag and drop your CSV file here, or click to browse
+              Drag and drop your CSV, TSV, spreadsheet or PDF file here, or click to browse
             </p>
           </div>
 
           <div className="flex items-center space-x-2 text-xs text-gray-400">
             <FileText className="h-4 w-4" />
-            <span>CSV format required</span>
+            <span>CSV, TSV, XLSX, XLS, ODS or PDF</span>
           </div>
 
           <input
             type="file"
-            accept=".csv"
+            accept={importFileAccept}
             onChange={handleFileInputChange}
             className="hidden"
             id="csv-upload"
@@ -167,6 +265,9 @@ export default function CSVUpload({ onDataParsed, onError }: CSVUploadProps) {
               <strong>Required:</strong> Module and Vendor columns<br/>
               <strong>Auto-detected:</strong> Type, RAM Speed, Size, Chip, SS/DS, XMP, EXPO, etc.<br/>
               <strong>Flexible:</strong> Column names are intelligently matched (e.g., "Brand" → "Vendor")<br/>
+              <strong>Spreadsheets:</strong> XLSX/XLS/ODS workbooks and tab-separated files are read the same way<br/>
+              <strong>PDF QVLs:</strong> Tables are extracted from text-based PDFs and previewed before mapping<br/>
+              <strong>Headerless QVLs:</strong> Raw dumps without a header row are read by column position<br/>
               <strong>Additional columns:</strong> Any extra columns are preserved and displayed
             </p>
           </div>
@@ -0,0 +1,264 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowRight, Bookmark } from 'lucide-react';
+import { RAMModule } from '@/types/ram';
+import {
+  ColumnField,
+  ColumnMapping,
+  RawTable,
+  TableMapping,
+  columnFieldLabels,
+  columnFieldScore,
+  columnFields,
+  mappingFromAssignments,
+  parseTableWithReport,
+  sampleColumnValues,
+} from '@/lib/csv-parser';
+import { ImportReport } from '@/lib/import-report';
+
+export interface ColumnInfo {
+  mapped: string[];
+  unknown: string[];
+  // Name of the positional profile used for a headerless file
+  profile?: string;
+}
+
+export interface ImportResult {
+  modules: RAMModule[];
+  columnInfo: ColumnInfo;
+  mapping: ColumnMapping;
+  report: ImportReport;
+}
+
+interface ColumnMappingReviewProps {
+  table: RawTable;
+  detected: TableMapping;
+  sourceName?: string;
+  // presetName is set when the user asked to remember this mapping
+  onConfirm: (result: ImportResult, presetName: string | null) => void;
+  onCancel: () => void;
+  onError: (error: string) => void;
+}
+
+const requiredFields: ColumnField[] = ['module', 'vendor'];
+
+export default function ColumnMappingReview({
+  table,
+  detected,
+  sourceName,
+  onConfirm,
+  onCancel,
+  onError,
+}: ColumnMappingReviewProps) {
+  const initialMapping = detected.mapping;
+  const [assignments, setAssignments] = useState<Record<ColumnField, string | null>>(() => {
+    const initial = {} as Record<ColumnField, string | null>;
+    columnFields.forEach((field) => {
+      initial[field] = initialMapping[field];
+    });
+    return initial;
+  });
+  const [savePreset, setSavePreset] = useState(false);
+  const [savePresetTouched, setSavePresetTouched] = useState(false);
+  const [presetName, setPresetName] = useState(
+    detected.presetName ?? (sourceName ? sourceName.replace(/\.[^.]+$/, '') : '')
+  );
+
+  const mapping = useMemo(
+    () => mappingFromAssignments(assignments, table.columns),
+    [assignments, table.columns]
+  );
+
+  const missingRequired = requiredFields.filter(field => !mapping[field]);
+
+  // Columns claimed by more than one field are usually a mistake
+  const duplicateColumns = useMemo(() => {
+    const counts = new Map<string, number>();
+    columnFields.forEach((field) => {
+      const column = mapping[field];
+      if (column) counts.set(column, (counts.get(column) ?? 0) + 1);
+    });
+    return new Set(Array.from(counts.entries()).filter(([, n]) => n > 1).map(([column]) => column));
+  }, [mapping]);
+
+  const handleAssign = (field: ColumnField, column: string) => {
+    setAssignments(prev => ({ ...prev, [field]: column || null }));
+    // Corrected mappings are worth remembering unless the user opted out
+    if (!savePresetTouched) setSavePreset(true);
+  };
+
+  const handleConfirm = () => {
+    if (missingRequired.length > 0) return;
+
+    const { modules, report } = parseTableWithReport(table, mapping, sourceName);
+    if (modules.length === 0) {
+      onError('No valid RAM modules found with this mapping. Please check that Module and Vendor point at columns with data.');
+      return;
+    }
+
+    const mappedColumns = columnFields.map(field => mapping[field]).filter(Boolean) as string[];
+    onConfirm(
+      {
+        modules,
+        columnInfo: {
+          mapped: Array.from(new Set(mappedColumns)),
+          unknown: mapping.unknown,
+          profile: table.profile?.name,
+        },
+        mapping,
+        report,
+      },
+      savePreset ? presetName : null
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-base font-semibold text-gray-900">Review Column Mapping</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          {sourceName ? `${sourceName}: ` : ''}
+          {table.rows.length} rows, {table.columns.length} columns.
+          {detected.source === 'preset'
+            ? ` Mapping loaded from saved preset "${detected.presetName}".`
+            : detected.source === 'profile' && table.profile
+            ? ` No header row was found, so columns were assigned by position (${table.profile.name}).`
+            : ' Check each field below and reassign any column that was matched incorrectly.'}
+        </p>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="table-header">Field</th>
+              <th className="table-header">Source Column</th>
+              <th className="table-header">Confidence</th>
+              <th className="table-header">Sample Values</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {columnFields.map((field) => {
+              const column = mapping[field];
+              const score = column ? columnFieldScore(field, column) : null;
+              const samples = sampleColumnValues(table, column);
+              const isRequired = requiredFields.includes(field);
+
+              return (
+                <tr key={field} className={isRequired && !column ? 'bg-red-50' : undefined}>
+                  <td className="table-cell font-medium text-gray-900">
+                    {columnFieldLabels[field]}
+                    {isRequired && <span className="text-red-600 ml-1">*</span>}
+                  </td>
+                  <td className="table-cell">
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={column ?? ''}
+                        onChange={(e) => handleAssign(field, e.target.value)}
+                        className="input-field py-1 text-sm"
+                      >
+                        <option value="">— Ignore —</option>
+                        {table.columns.map((col) => (
+                          <option key={col} value={col}>
+                            {col}
+                          </option>
+                        ))}
+                      </select>
+                      {column && duplicateColumns.has(column) && (
+                        <span title="This column is mapped to more than one field">
+                          <AlertTriangle className="h-4 w-4 text-orange-500" />
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="table-cell">
+                    {score === null ? (
+                      <span className="text-gray-400">-</span>
+                    ) : detected.source === 'preset' && column === initialMapping[field] ? (
+                      <span className="text-xs px-2 py-1 rounded-full bg-purple-100 text-purple-800">Preset</span>
+                    ) : detected.source === 'profile' && column === initialMapping[field] ? (
+                      <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800">By position</span>
+                    ) : (
+                      <span
+                        className={`text-xs px-2 py-1 rounded-full ${
+                          score >= 80
+                            ? 'bg-green-100 text-green-800'
+                            : score >= 50
+                            ? 'bg-yellow-100 text-yellow-800'
+                            : 'bg-red-100 text-red-800'
+                        }`}
+                      >
+                        {score}%
+                      </span>
+                    )}
+                  </td>
+                  <td className="table-cell text-gray-600">
+                    {samples.length > 0 ? (
+                      <span className="font-mono text-xs">{samples.join(' · ')}</span>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {mapping.unknown.length > 0 && (
+        <p className="text-xs text-gray-600">
+          <strong>Passed through as additional columns:</strong> {mapping.unknown.join(', ')}
+        </p>
+      )}
+
+      {missingRequired.length > 0 && (
+        <div className="flex items-center text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4 mr-2" />
+          Assign a column to {missingRequired.map(field => columnFieldLabels[field]).join(' and ')} to continue.
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 p-3 bg-gray-50 rounded-lg">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={savePreset}
+            onChange={(e) => {
+              setSavePreset(e.target.checked);
+              setSavePresetTouched(true);
+            }}
+            className="mr-2"
+          />
+          <Bookmark className="h-4 w-4 mr-1 text-gray-500" />
+          Remember this mapping for files with the same headers
+        </label>
+        {savePreset && (
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name (e.g. ASUS X670E QVL)"
+            className="input-field py-1 text-sm flex-1 min-w-[12rem]"
+          />
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        <button type="button" onClick={onCancel} className="btn-secondary">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={missingRequired.length > 0}
+          className="btn-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import {table.rows.length} Rows
+          <ArrowRight className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { AlertTriangle, MemoryStick } from 'lucide-react';
+import { PopulationTarget, isTwoDimmsPerChannel } from '@/lib/dimm-population';
+import { findImcProfile, imcProfiles, twoDpcSpeeds } from '@/lib/imc-profiles';
+import { BoardQVL } from '@/lib/workspace';
+
+interface CompatibilityAdvisorProps {
+  // Workspace boards; with more than one, the population can be checked against a single board
+  boards: BoardQVL[];
+  target: PopulationTarget | null;
+  onChange: (target: PopulationTarget | null) => void;
+  // CPU memory-controller profile for the expected-speed column
+  imcProfileId: string | null;
+  onImcProfileChange: (id: string | null) => void;
+  resultCount: number;
+}
+
+const dimmOptions = [1, 2, 4];
+const capacityOptions = [16, 32, 48, 64, 96, 128, 192, 256];
+
+// Picks a target DIMM population; the page filters the table to modules validated for it
+export default function CompatibilityAdvisor({
+  boards,
+  target,
+  onChange,
+  imcProfileId,
+  onImcProfileChange,
+  resultCount,
+}: CompatibilityAdvisorProps) {
+  const update = (patch: Partial<PopulationTarget>) => onChange({ dimms: 2, ...target, ...patch });
+  const profile = findImcProfile(imcProfileId);
+  const ddr5 = twoDpcSpeeds('DDR5', profile);
+
+  return (
+    <div className="mb-4 p-4 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center text-sm font-medium text-gray-900">
+          <MemoryStick className="h-4 w-4 mr-2 text-gray-500" />
+          DIMM Population
+        </div>
+        <select
+          value={imcProfileId ?? ''}
+          onChange={(e) => onImcProfileChange(e.target.value || null)}
+          aria-label="CPU platform"
+          className="input-field py-1 text-sm"
+        >
+          <option value="">Any CPU</option>
+          {imcProfiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <select
+          value={target?.dimms ?? ''}
+          onChange={(e) => (e.target.value ? update({ dimms: Number(e.target.value) }) : onChange(null))}
+          aria-label="DIMMs"
+          className="input-field py-1 text-sm"
+        >
+          <option value="">Any population</option>
+          {dimmOptions.map(n => (
+            <option key={n} value={n}>{n} DIMM{n > 1 ? 's' : ''}</option>
+          ))}
+        </select>
+
+        {target && (
+          <>
+            {boards.length > 1 && (
+              <select
+                value={target.boardIds?.[0] ?? ''}
+                onChange={(e) => update({ boardIds: e.target.value ? [e.target.value] : undefined })}
+                aria-label="Board"
+                className="input-field py-1 text-sm"
+              >
+                <option value="">Every listing board</option>
+                {boards.map(board => (
+                  <option key={board.id} value={board.id}>{board.name}</option>
+                ))}
+              </select>
+            )}
+            <select
+              value={target.capacityGB ?? ''}
+              onChange={(e) => update({ capacityGB: e.target.value ? Number(e.target.value) : undefined })}
+              aria-label="Total capacity"
+              className="input-field py-1 text-sm"
+            >
+              <option value="">Any capacity</option>
+              {capacityOptions.map(gb => (
+                <option key={gb} value={gb}>{gb} GB total</option>
+              ))}
+            </select>
+            <select
+              value={target.rank ?? ''}
+              onChange={(e) => update({ rank: (e.target.value || undefined) as PopulationTarget['rank'] })}
+              aria-label="Rank"
+              className="input-field py-1 text-sm"
+            >
+              <option value="">Any rank</option>
+              <option value="Single">Single-rank</option>
+              <option value="Dual">Dual-rank</option>
+            </select>
+            <span className="text-sm text-gray-500 ml-auto">{resultCount} modules validated</span>
+          </>
+        )}
+      </div>
+
+      {target && isTwoDimmsPerChannel(target.dimms) && (
+        <div className="flex items-start gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded p-2">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>
+            {target.dimms} DIMMs run two per channel (2DPC). Expect a speed downgrade
+            {ddr5 && (
+              <>
+                : DDR5 {profile ? `on ${profile.name} typically holds` : 'holds at most'} about {ddr5.Single} MT/s
+                single-rank and {ddr5.Dual} MT/s dual-rank
+              </>
+            )}
+            . Faster kits are marked in the Speed column.
+          </span>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Uses the QVL &quot;DIMM Socket Support&quot; column, e.g. &quot;2/4&quot; means validated with two and four DIMMs;
+        with several boards a count is validated only when every board listing the module tested it.
+        Picking a CPU adds an expected speed column from typical memory-controller limits.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, FileWarning } from 'lucide-react';
+import {
+  ImportIssueKind,
+  ImportReport,
+  countIssues,
+  importIssueLabels,
+  importReportToCSV,
+} from '@/lib/import-report';
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+}
+
+const PAGE_SIZE = 100;
+
+const kindStyles: Record<ImportIssueKind, string> = {
+  skipped: 'bg-red-100 text-red-800',
+  defaulted: 'bg-yellow-100 text-yellow-800',
+  unparseable: 'bg-orange-100 text-orange-800',
+  unmatched_chip: 'bg-purple-100 text-purple-800',
+  mismatch: 'bg-blue-100 text-blue-800',
+  inconsistent: 'bg-pink-100 text-pink-800',
+};
+
+export default function ImportReportPanel({ report }: ImportReportPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [kindFilter, setKindFilter] = useState<ImportIssueKind | 'all'>('all');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const counts = useMemo(() => countIssues(report), [report]);
+  const issues = useMemo(
+    () => (kindFilter === 'all' ? report.issues : report.issues.filter(issue => issue.kind === kindFilter)),
+    [report, kindFilter]
+  );
+
+  const handleDownload = () => {
+    const blob = new Blob([importReportToCSV(report)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(report.source ?? 'import').replace(/\.[^.]+$/, '')}-import-report.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between p-4">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center text-sm font-medium text-gray-900"
+        >
+          {isOpen ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+          <FileWarning className="h-4 w-4 mr-2 text-orange-500" />
+          Import Report: {report.importedRows} of {report.totalRows} rows imported, {report.issues.length} notes
+        </button>
+        <button
+          type="button"
+          onClick={handleDownload}
+          disabled={report.issues.length === 0}
+          className="btn-secondary text-xs py-1 px-2 flex items-center gap-1 disabled:opacity-50"
+        >
+          <Download className="h-3 w-3" />
+          Download CSV
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setKindFilter('all')}
+              className={`text-xs px-2 py-1 rounded-full border ${
+                kindFilter === 'all' ? 'border-blue-500 bg-blue-50 text-blue-800' : 'border-gray-300 text-gray-700'
+              }`}
+            >
+              All ({report.issues.length})
+            </button>
+            {(Object.keys(counts) as ImportIssueKind[]).map((kind) => (
+              <button
+                type="button"
+                key={kind}
+                onClick={() => setKindFilter(kind)}
+                className={`text-xs px-2 py-1 rounded-full border ${
+                  kindFilter === kind ? 'border-blue-500 bg-blue-50 text-blue-800' : 'border-gray-300 text-gray-700'
+                }`}
+              >
+                {importIssueLabels[kind]} ({counts[kind]})
+              </button>
+            ))}
+          </div>
+
+          {issues.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing to report.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="table-header">Line</th>
+                    <th className="table-header">Kind</th>
+                    <th className="table-header">Module</th>
+                    <th className="table-header">Field</th>
+                    <th className="table-header">Raw Value</th>
+                    <th className="table-header">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {issues.slice(0, visibleCount).map((issue) => (
+                    <tr key={`${issue.line}-${issue.kind}-${issue.field ?? ''}`}>
+                      <td className="table-cell font-mono text-gray-600">{issue.line || '-'}</td>
+                      <td className="table-cell">
+                        <span className={`text-xs px-2 py-1 rounded-full ${kindStyles[issue.kind]}`}>
+                          {importIssueLabels[issue.kind]}
+                        </span>
+                      </td>
+                      <td className="table-cell font-mono text-gray-700">{issue.module ?? '-'}</td>
+                      <td className="table-cell text-gray-700">{issue.field ?? '-'}</td>
+                      <td className="table-cell font-mono text-xs text-gray-600 max-w-xs truncate">
+                        {issue.raw || '-'}
+                      </td>
+                      <td className="table-cell text-gray-700">
+                        {issue.message}
+                        {issue.value && <span className="text-gray-500"> → {issue.value}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {issues.length > visibleCount && (
+                <button
+                  type="button"
+                  onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                  className="btn-secondary text-xs py-1 px-2 mt-2"
+                >
+                  Show more ({issues.length - visibleCount} remaining)
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
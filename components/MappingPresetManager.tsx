@@ -0,0 +1,105 @@
+'use client';
+
+import { useCallback, useRef } from 'react';
+import { Bookmark, Download, Trash2, Upload } from 'lucide-react';
+import {
+  MappingPreset,
+  deleteMappingPreset,
+  exportMappingPresets,
+  importMappingPresets,
+} from '@/lib/mapping-presets';
+
+interface MappingPresetManagerProps {
+  presets: MappingPreset[];
+  onChange: (presets: MappingPreset[]) => void;
+  onError: (error: string) => void;
+}
+
+export default function MappingPresetManager({ presets, onChange, onError }: MappingPresetManagerProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleExport = useCallback(() => {
+    const blob = new Blob([exportMappingPresets(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'hitta-ram-mapping-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [presets]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(importMappingPresets(presets, await file.text()));
+    } catch (error) {
+      onError(`Could not import presets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, [presets, onChange, onError]);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-4 p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center text-sm font-medium text-gray-900">
+          <Bookmark className="h-4 w-4 mr-2 text-gray-500" />
+          Saved Column Mappings ({presets.length})
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="btn-secondary text-xs py-1 px-2 flex items-center gap-1"
+          >
+            <Upload className="h-3 w-3" />
+            Import
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={presets.length === 0}
+            className="btn-secondary text-xs py-1 px-2 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Download className="h-3 w-3" />
+            Export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Mappings you confirm during import can be remembered and are applied automatically to files with the same headers.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {presets.map((preset) => (
+            <li key={preset.fingerprint} className="flex items-center justify-between py-1">
+              <div className="min-w-0">
+                <span className="text-sm text-gray-800">{preset.name}</span>
+                <span className="text-xs text-gray-500 ml-2 truncate">
+                  {preset.columns.length} columns • {new Date(preset.savedAt).toLocaleDateString()}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(deleteMappingPreset(presets, preset.fingerprint))}
+                className="text-gray-400 hover:text-red-600"
+                title="Delete preset"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
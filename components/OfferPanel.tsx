@@ -0,0 +1,77 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, ExternalLink } from "lucide-react";
+import { OfferSort, sortOffers } from "@/lib/offers";
+import { PrisjaktProduct } from "@/types/ram";
+
+interface OfferPanelProps {
+  offers: PrisjaktProduct[];
+}
+
+const availabilityLabels: Record<PrisjaktProduct["availability"], { label: string; className: string }> = {
+  in_stock: { label: "In Stock", className: "text-green-600" },
+  incoming: { label: "Incoming", className: "text-orange-600" },
+  not_available: { label: "Not Available", className: "text-red-600" },
+};
+
+// Every store offer for one module, shown when its table row is expanded
+export default function OfferPanel({ offers }: OfferPanelProps) {
+  const [sort, setSort] = useState<OfferSort>("asc");
+  const [inStockOnly, setInStockOnly] = useState(false);
+
+  const visible = useMemo(() => sortOffers(offers, sort, inStockOnly), [offers, sort, inStockOnly]);
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-md p-3 space-y-2">
+      <div className="flex items-center gap-4 text-sm">
+        <span className="font-medium text-gray-900">{offers.length} offers</span>
+        <button
+          type="button"
+          onClick={() => setSort(sort === "asc" ? "desc" : "asc")}
+          className="flex items-center gap-1 text-gray-600 hover:text-gray-900"
+        >
+          Price
+          {sort === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+        </button>
+        <label className="flex items-center gap-1 text-gray-600">
+          <input type="checkbox" checked={inStockOnly} onChange={(e) => setInStockOnly(e.target.checked)} />
+          In stock only
+        </label>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500">No offers in stock.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <tbody className="divide-y divide-gray-200">
+            {visible.map((offer) => (
+              <tr key={`${offer.store}-${offer.id}`}>
+                <td className="py-1 pr-4 text-gray-900">{offer.store}</td>
+                <td className="py-1 pr-4 font-medium text-gray-900">
+                  {offer.price.toLocaleString()} {offer.currency}
+                </td>
+                <td className={`py-1 pr-4 text-xs ${availabilityLabels[offer.availability]?.className ?? "text-gray-500"}`}>
+                  {availabilityLabels[offer.availability]?.label ?? offer.availability}
+                </td>
+                <td className="py-1 pr-4 text-gray-500 max-w-xs truncate">{offer.name}</td>
+                <td className="py-1">
+                  {offer.storeUrl && (
+                    <a
+                      href={offer.storeUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-blue-600 hover:underline"
+                    >
+                      Open <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import { ClipboardPaste } from 'lucide-react';
+import Papa from 'papaparse';
+import { RawTable, buildRawTable } from '@/lib/csv-parser';
+import { extractHtmlTables, largestTable } from '@/lib/html-table';
+
+interface PasteImportProps {
+  onTableLoaded: (table: RawTable, sourceName: string) => void;
+  onError: (error: string) => void;
+}
+
+export default function PasteImport({ onTableLoaded, onError }: PasteImportProps) {
+  const [text, setText] = useState('');
+  // Cells from the HTML flavour of the clipboard, which keeps table structure intact
+  const [htmlCells, setHtmlCells] = useState<string[][] | null>(null);
+  // Table from the paste event, applied by the change event that follows it
+  const pastedCells = useRef<string[][] | null>(null);
+
+  const handlePaste = useCallback((e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const html = e.clipboardData.getData('text/html');
+    pastedCells.current = html ? largestTable(extractHtmlTables(html)) : null;
+  }, []);
+
+  const handleImport = useCallback(() => {
+    const cells = htmlCells ?? Papa.parse<string[]>(text, {
+      header: false,
+      // Spreadsheet and browser copies are tab-separated
+      delimiter: text.includes('\t') ? '\t' : undefined,
+      skipEmptyLines: false,
+    }).data;
+
+    const table = buildRawTable(cells);
+    if (table.rows.length === 0) {
+      onError('The pasted content does not contain a table with data rows.');
+      return;
+    }
+    onTableLoaded(table, 'Pasted table');
+    setText('');
+    setHtmlCells(null);
+  }, [htmlCells, text, onTableLoaded, onError]);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 flex flex-col">
+      <div className="flex items-center text-sm font-medium text-gray-900 mb-2">
+        <ClipboardPaste className="h-4 w-4 mr-2 text-gray-500" />
+        Paste a Table
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          // Any edit after a paste means the HTML no longer matches the text
+          setHtmlCells(pastedCells.current);
+          pastedCells.current = null;
+        }}
+        onPaste={handlePaste}
+        placeholder="Copy the QVL table from a vendor page or spreadsheet and paste it here"
+        rows={5}
+        className="input-field w-full font-mono text-xs flex-1"
+      />
+      <div className="flex items-center justify-between mt-2">
+        <span className="text-xs text-gray-500">
+          {htmlCells ? `HTML table detected (${htmlCells.length} rows)` : 'Tab-separated or CSV text'}
+        </span>
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={!text.trim() && !htmlCells}
+          className="btn-primary text-sm py-1 px-3 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import Pasted Table
+        </button>
+      </div>
+    </div>
+  );
+}
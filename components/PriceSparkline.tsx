@@ -0,0 +1,39 @@
+'use client';
+
+import { PriceSnapshot } from '@/lib/price-history';
+
+interface PriceSparklineProps {
+  history: PriceSnapshot[];
+  width?: number;
+  height?: number;
+}
+
+// Price trend over the stored snapshots, oldest on the left
+export default function PriceSparkline({ history, width = 80, height = 20 }: PriceSparklineProps) {
+  if (history.length < 2) return null;
+
+  const prices = history.map(s => s.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const first = history[0].at;
+  const span = history[history.length - 1].at - first || 1;
+  const points = history
+    .map(s => {
+      const x = ((s.at - first) / span) * width;
+      const y = max === min ? height / 2 : height - ((s.price - min) / (max - min)) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  const trend = prices[prices.length - 1] - prices[0];
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible" aria-hidden="true">
+      <polyline
+        points={points}
+        fill="none"
+        strokeWidth={1.5}
+        className={trend > 0 ? 'stroke-red-500' : trend < 0 ? 'stroke-green-600' : 'stroke-gray-400'}
+      />
+    </svg>
+  );
+}
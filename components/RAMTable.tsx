@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { Fragment, useState, useMemo } from "react";
 import {
   useReactTable,
   getCoreRowModel,
@@ -12,6 +12,7 @@ import {
   ColumnDef,
   SortingState,
   ColumnFiltersState,
+  ExpandedState,
 } from "@tanstack/react-table";
 import {
   ChevronUp,
@@ -20,31 +21,94 @@ import {
   Filter,
   RefreshCw,
   Check,
+  AlertTriangle,
+  Star,
 } from "lucide-react";
 import MultiSelect from "@/components/MultiSelect";
+import OfferPanel from "@/components/OfferPanel";
+import PriceSparkline from "@/components/PriceSparkline";
 import RangeSlider from "@/components/RangeSlider";
 import { RAMModuleWithPrice } from "@/types/ram";
-import { getDieInfo, getRankInfo } from "@/lib/die-knowledge-base";
+import { dieLookupOptions } from "@/lib/die-inference";
+import { getRankInfo, matchDie } from "@/lib/die-knowledge-base";
+import { PopulationTarget, adviseModule } from "@/lib/dimm-population";
+import { ImcProfile, expectedSpeed } from "@/lib/imc-profiles";
+import { JobStatus } from "@/lib/job-runner";
+import { describeOrganization } from "@/lib/organization";
+import { PriceSnapshot, lowestSince, priceHistoryKey } from "@/lib/price-history";
+import { firstWordLatencyNs } from "@/lib/timings";
+import { WatchEntry, findWatch } from "@/lib/watchlist";
+import {
+  ValueScoreWeights,
+  bestValueByCapacity,
+  defaultValueScoreWeights,
+  pricePerGB,
+  pricePerMTs,
+  valueScore,
+} from "@/lib/value-metrics";
+import { supportedBoardCount } from "@/lib/workspace";
 
 interface RAMTableProps {
   data: RAMModuleWithPrice[];
+  // Boards merged into the workspace; with more than one, per-board support columns are shown
+  boards?: { id: string; name: string }[];
+  // Target DIMM population from the compatibility advisor; flags kits unlikely to hold their speed
+  population?: PopulationTarget | null;
+  // Selected CPU platform; adds the expected achievable speed column
+  imcProfile?: ImcProfile;
+  // Stored price snapshots by priceHistoryKey
+  priceHistories?: Record<string, PriceSnapshot[]>;
+  // Starred modules; the star toggle is shown when onToggleWatch is given
+  watchlist?: WatchEntry[];
+  onToggleWatch?: (module: string) => void;
   onRefreshPrices: (module: string) => Promise<void>;
   onRefreshAllPrices: (modules: RAMModuleWithPrice[]) => Promise<void>;
-  isLoading: boolean;
+  // Price search status by module number
+  rowStatus?: Record<string, JobStatus>;
+  // A bulk refresh is running
+  isRefreshing: boolean;
 }
 
 const columnHelper = createColumnHelper<RAMModuleWithPrice>();
 
+function uniqueNumbers(data: RAMModuleWithPrice[], key: "casLatency" | "trcd" | "voltage"): number[] {
+  return Array.from(
+    new Set((data || []).map((d) => d[key]).filter((v): v is number => v !== undefined))
+  ).sort((a, b) => a - b);
+}
+
+function numberRangeFilter(row: any, columnId: string, range?: [number, number]) {
+  if (!range || range.length !== 2) return true;
+  const v = row.getValue(columnId) as number | undefined;
+  if (v === undefined) return false;
+  return v >= range[0] && v <= range[1];
+}
+
+function timingCell({ getValue }: { getValue: () => unknown }) {
+  return <span className="text-gray-700">{(getValue() as number | undefined) ?? "-"}</span>;
+}
+
 export default function RAMTable({
   data,
+  boards = [],
+  population = null,
+  imcProfile,
+  priceHistories = {},
+  watchlist = [],
+  onToggleWatch,
   onRefreshPrices,
   onRefreshAllPrices,
-  isLoading,
+  rowStatus = {},
+  isRefreshing,
 }: RAMTableProps) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
   const [globalFilter, setGlobalFilter] = useState("");
+  const [expanded, setExpanded] = useState<ExpandedState>({});
   const [priceFilter, setPriceFilter] = useState<"all" | "with_price" | "without_price">("all");
+  const [everyBoardOnly, setEveryBoardOnly] = useState(false);
+  const [valueWeights, setValueWeights] = useState<ValueScoreWeights>(defaultValueScoreWeights);
+  const multiBoard = boards.length > 1;
 
   // Unique option lists for multi-select filters
   const uniqueVendors = useMemo(
@@ -61,6 +125,13 @@ export default function RAMTable({
       ).sort(),
     [data]
   );
+  const uniqueDensities = useMemo(
+    () =>
+      Array.from(
+        new Set((data || []).map((d) => d.icDensity).filter((v): v is string => !!v))
+      ).sort((a, b) => Number.parseInt(a, 10) - Number.parseInt(b, 10)),
+    [data]
+  );
   const uniqueSpeeds = useMemo(
     () =>
       Array.from(
@@ -109,6 +180,16 @@ export default function RAMTable({
     () => (speedNumbers.length ? Math.max(...speedNumbers) : 8000),
     [speedNumbers]
   );
+  const uniqueCasLatencies = useMemo(() => uniqueNumbers(data, "casLatency"), [data]);
+  const uniqueTrcds = useMemo(() => uniqueNumbers(data, "trcd"), [data]);
+  const uniqueVoltages = useMemo(() => uniqueNumbers(data, "voltage"), [data]);
+  const latencyNumbers = useMemo(
+    () =>
+      (data || [])
+        .map((d) => firstWordLatencyNs(d.casLatency, Number(d.ramSpeed)))
+        .filter((n): n is number => n !== undefined),
+    [data]
+  );
   const sizePerVals = useMemo(
     () => uniquePerSizes.sort((a, b) => a - b),
     [uniquePerSizes]
@@ -140,6 +221,27 @@ export default function RAMTable({
     []
   );
 
+  // Filter data based on price filter and board coverage
+  const filteredData = useMemo(() => {
+    const onBoards = multiBoard && everyBoardOnly
+      ? data.filter(row => supportedBoardCount(row) === boards.length)
+      : data;
+    if (priceFilter === "all") return onBoards;
+    if (priceFilter === "with_price") {
+      return onBoards.filter(row => row.price !== undefined && row.price > 0);
+    }
+    if (priceFilter === "without_price") {
+      return onBoards.filter(row => !row.price || row.price === 0);
+    }
+    return onBoards;
+  }, [data, priceFilter, multiBoard, everyBoardOnly, boards.length]);
+
+  // Highest value score per capacity tier among the rows that pass the price and board filters
+  const bestValue = useMemo(
+    () => bestValueByCapacity(filteredData, valueWeights),
+    [filteredData, valueWeights]
+  );
+
   const columns = useMemo<ColumnDef<RAMModuleWithPrice, any>[]>(
     () => [
       columnHelper.accessor("vendor", {
@@ -151,9 +253,31 @@ export default function RAMTable({
       }),
       columnHelper.accessor("module", {
         header: "Module",
-        cell: ({ getValue }) => (
-          <span className="font-mono text-sm text-gray-700">{getValue()}</span>
-        ),
+        cell: ({ getValue, row }) => {
+          const { series, color, rgb } = row.original;
+          const decoded = [series, color, rgb && !series?.includes("RGB") ? "RGB" : undefined]
+            .filter(Boolean)
+            .join(" · ");
+          const watched = !!findWatch(watchlist, getValue());
+          return (
+            <div className="flex items-start gap-2">
+              {onToggleWatch && (
+                <button
+                  type="button"
+                  onClick={() => onToggleWatch(getValue())}
+                  className="mt-0.5"
+                  title={watched ? "Stop watching" : "Watch price and stock"}
+                >
+                  <Star className={`h-4 w-4 ${watched ? "fill-amber-400 text-amber-500" : "text-gray-300 hover:text-gray-500"}`} />
+                </button>
+              )}
+              <div className="flex flex-col">
+                <span className="font-mono text-sm text-gray-700">{getValue()}</span>
+                {decoded && <span className="text-xs text-gray-500">{decoded}</span>}
+              </div>
+            </div>
+          );
+        },
       }),
       columnHelper.accessor("perStickSizeGB", {
         header: "Per Stick (GB)",
@@ -181,9 +305,27 @@ export default function RAMTable({
       }),
       columnHelper.accessor("ramSpeed", {
         header: "Speed",
-        cell: ({ getValue }) => (
-          <span className="text-gray-700">{getValue()}</span>
-        ),
+        cell: ({ getValue, row }) => {
+          const warnings = population ? adviseModule(row.original, population, imcProfile).warnings : [];
+          const supported = row.original.supportedSpeed;
+          return (
+            <div className="flex flex-col">
+              <span className="text-gray-700 flex items-center gap-1">
+                {getValue()}
+                {warnings.length > 0 && (
+                  <span title={warnings.join("\n")}>
+                    <AlertTriangle className="h-3 w-3 text-amber-500" />
+                  </span>
+                )}
+              </span>
+              {supported && supported !== getValue() && (
+                <span className="text-xs text-gray-500" title="Speed the board QVL validated">
+                  QVL {supported}
+                </span>
+              )}
+            </div>
+          );
+        },
         filterFn: (row, colId, range?: [number, number]) => {
           if (!range || range.length !== 2) return true;
           const raw = row.getValue(colId) as string | number | undefined;
@@ -196,17 +338,98 @@ export default function RAMTable({
           return n >= range[0] && n <= range[1];
         },
       }),
+      ...(imcProfile
+        ? [
+            columnHelper.accessor((row) => expectedSpeed(row, imcProfile, population?.dimms), {
+              id: "expectedSpeed",
+              header: "Expected",
+              cell: ({ getValue, row }) => {
+                const speed = getValue();
+                if (speed === undefined) return <span className="text-gray-400">-</span>;
+                const capped = speed < Number(row.original.ramSpeed);
+                return (
+                  <span
+                    title={`Typical for ${imcProfile.name} with ${population?.dimms ?? 2} DIMMs`}
+                    className={capped ? "text-amber-700 font-medium" : "text-gray-700"}
+                  >
+                    {speed}
+                  </span>
+                );
+              },
+            }),
+          ]
+        : []),
+      columnHelper.accessor("casLatency", {
+        header: "CL",
+        cell: timingCell,
+        filterFn: multiNumberFilter as any,
+      }),
+      columnHelper.accessor("trcd", {
+        header: "tRCD",
+        cell: timingCell,
+        filterFn: multiNumberFilter as any,
+      }),
+      columnHelper.accessor("trp", {
+        header: "tRP",
+        cell: timingCell,
+        filterFn: multiNumberFilter as any,
+      }),
+      columnHelper.accessor("tras", {
+        header: "tRAS",
+        cell: timingCell,
+        filterFn: multiNumberFilter as any,
+      }),
+      columnHelper.accessor("voltage", {
+        header: "Voltage",
+        cell: ({ getValue }) => {
+          const v = getValue() as number | undefined;
+          return <span className="text-gray-700">{v !== undefined ? `${v.toFixed(2)} V` : "-"}</span>;
+        },
+        filterFn: multiNumberFilter as any,
+      }),
+      columnHelper.accessor(
+        (row) => firstWordLatencyNs(row.casLatency, Number(row.ramSpeed)),
+        {
+          id: "latencyNs",
+          header: "Latency (ns)",
+          cell: ({ getValue }) => {
+            const ns = getValue() as number | undefined;
+            return <span className="text-gray-700">{ns !== undefined ? ns.toFixed(2) : "-"}</span>;
+          },
+          filterFn: numberRangeFilter as any,
+        }
+      ),
       columnHelper.accessor("chip", {
         header: "Die Type",
-        cell: ({ getValue }) => {
-          const dieInfo = getDieInfo(getValue());
+        cell: ({ getValue, row }) => {
+          const match = matchDie(getValue(), dieLookupOptions(row.original));
+          const dieInfo = match.die;
+          // A die inferred from the part number is never more than probable
+          const inferred = row.original.chipSource === "inferred";
+          const assumptions = inferred
+            ? [`inferred from ${row.original.chipInference ?? "part number"}`, ...match.assumptions]
+            : match.assumptions;
+          const probable = match.confidence === "probable" || (inferred && match.confidence === "confirmed");
+          const confidence =
+            match.confidence === "none" ? null : probable ? `Probable (${assumptions.join(", ")})` : "Confirmed";
           return (
             <div className="flex flex-col">
               <span className="text-sm font-medium text-gray-900">
                 {getValue()}
+                {inferred && <span className="ml-1 text-xs font-normal italic text-gray-500">inferred</span>}
+                {row.original.chipSource === "missing" && (
+                  <span className="ml-1 text-xs font-normal italic text-gray-500">not in QVL</span>
+                )}
               </span>
               {dieInfo && (
                 <span
+                  title={[
+                    confidence ? `${confidence}: ${dieInfo.dieType}` : dieInfo.dieType,
+                    dieInfo.description,
+                    dieInfo.ocNotes,
+                  ]
+                    .filter(Boolean)
+                    .join("\n")}
                   className={`text-xs px-2 py-1 rounded-full inline-block mt-1 ${
                     dieInfo.performance === "Premium"
                       ? "bg-purple-100 text-purple-800"
@@ -218,6 +441,7 @@ export default function RAMTable({
                   }`}
                 >
                   {dieInfo.performance}
+                  {probable && " ?"}
                 </span>
               )}
             </div>
@@ -228,15 +452,38 @@ export default function RAMTable({
       columnHelper.accessor("rank", {
         header: "Rank",
         cell: ({ getValue, row }) => (
-          <div className="flex flex-col">
-            <span className="text-sm font-medium text-gray-900">
+          <div
+            className="flex flex-col"
+            title={[getRankInfo(row.original.ssDs).description, describeOrganization(row.original)]
+              .filter(Boolean)
+              .join("\n")}
+          >
+            <span className="text-sm font-medium text-gray-900 flex items-center gap-1">
               {getValue() ?? "-"}
+              {row.original.organizationIssue && (
+                <span title={row.original.organizationIssue}>
+                  <AlertTriangle className="h-3 w-3 text-amber-500" />
+                </span>
+              )}
             </span>
             <span className="text-xs text-gray-500">{row.original.ssDs}</span>
           </div>
         ),
         filterFn: "includesString",
       }),
+      columnHelper.accessor("icDensity", {
+        header: "ICs",
+        cell: ({ getValue, row }) =>
+          getValue() ? (
+            <div className="flex flex-col">
+              <span className="text-sm text-gray-900">{getValue()}</span>
+              <span className="text-xs text-gray-500">{row.original.icWidth}</span>
+            </div>
+          ) : (
+            <span className="text-gray-400">-</span>
+          ),
+        filterFn: multiStringFilter as any,
+      }),
       columnHelper.accessor("price", {
         header: "Price",
         cell: ({ getValue, row }) => {
@@ -244,25 +491,39 @@ export default function RAMTable({
           const currency = row.original.currency;
           const store = row.original.store;
           const availability = row.original.availability;
+          const status = rowStatus[row.original.module];
+          const pending = status === "queued" || status === "searching";
 
           if (!price) {
             return (
-              <button
-                onClick={() => onRefreshPrices(row.original.module)}
-                disabled={isLoading}
-                className="btn-secondary text-xs py-1 px-2"
-              >
-                {isLoading ? (
-                  <RefreshCw className="h-3 w-3 animate-spin" />
-                ) : (
-                  "Find Price"
-                )}
-              </button>
+              <div className="flex flex-col items-start gap-1">
+                <button
+                  type="button"
+                  onClick={() => onRefreshPrices(row.original.module)}
+                  disabled={pending}
+                  className="btn-secondary text-xs py-1 px-2"
+                >
+                  {status === "searching" ? (
+                    <RefreshCw className="h-3 w-3 animate-spin" />
+                  ) : status === "queued" ? (
+                    "Queued"
+                  ) : (
+                    "Find Price"
+                  )}
+                </button>
+                {status === "not_found" && <span className="text-xs text-gray-500">Not found</span>}
+                {status === "error" && <span className="text-xs text-red-600">Search failed</span>}
+              </div>
             );
           }
 
           const storeUrl = row.original.storeUrl;
-          
+          const history = priceHistories[priceHistoryKey(row.original.module)] ?? [];
+          const lows = [30, 90].flatMap((days) => {
+            const low = history.length > 1 ? lowestSince(history, days) : undefined;
+            return low ? [{ days, low }] : [];
+          });
+
           return (
             <div className="flex flex-col">
               {storeUrl ? (
@@ -280,6 +541,22 @@ export default function RAMTable({
                 </span>
               )}
               <span className="text-xs text-gray-500">{store}</span>
+              <PriceSparkline history={history} />
+              {lows.map(({ days, low }) => (
+                <span key={days} className="text-xs text-gray-500">
+                  {days}d low {low.price.toLocaleString()} {low.currency}
+                </span>
+              ))}
+              {row.getCanExpand() && (
+                <button
+                  type="button"
+                  onClick={row.getToggleExpandedHandler()}
+                  className="flex items-center text-xs text-blue-600 hover:underline"
+                >
+                  {row.getIsExpanded() ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                  {row.original.offers?.length} offers
+                </button>
+              )}
               {availability && (
                 <span
                   className={`text-xs ${
@@ -331,6 +608,50 @@ export default function RAMTable({
           },
         }
       ),
+      columnHelper.accessor((row) => pricePerGB(row), {
+        id: "pricePerGB",
+        header: "Price / GB",
+        cell: ({ getValue, row }) => {
+          const v = getValue() as number | undefined;
+          if (v === undefined) return <span className="text-gray-400">-</span>;
+          return (
+            <span className="text-gray-700">
+              {v.toFixed(1)} {row.original.currency}
+            </span>
+          );
+        },
+      }),
+      columnHelper.accessor((row) => pricePerMTs(row), {
+        id: "pricePerMTs",
+        header: "Price / MT/s",
+        cell: ({ getValue, row }) => {
+          const v = getValue() as number | undefined;
+          if (v === undefined) return <span className="text-gray-400">-</span>;
+          return (
+            <span className="text-gray-700">
+              {v.toFixed(3)} {row.original.currency}
+            </span>
+          );
+        },
+      }),
+      columnHelper.accessor((row) => valueScore(row, valueWeights), {
+        id: "valueScore",
+        header: "Value Score",
+        cell: ({ getValue, row }) => {
+          const v = getValue() as number | undefined;
+          if (v === undefined) return <span className="text-gray-400">-</span>;
+          return (
+            <div className="flex flex-col">
+              <span className="font-medium text-gray-900">{v}</span>
+              {bestValue.has(row.original) && (
+                <span className="text-xs px-2 py-1 rounded-full inline-block mt-1 bg-green-100 text-green-800">
+                  Best value ({row.original.totalSizeGB} GB)
+                </span>
+              )}
+            </div>
+          );
+        },
+      }),
       columnHelper.accessor("xmpBool", {
         header: "XMP",
         cell: ({ getValue }) => (
@@ -355,6 +676,46 @@ export default function RAMTable({
           return value === "any" ? true : value === "true" ? !!v : !v;
         },
       }),
+      // Per-board support, when comparing several boards
+      ...(multiBoard
+        ? [
+            columnHelper.accessor((row) => supportedBoardCount(row), {
+              id: "boardCount",
+              header: "Boards",
+              cell: ({ getValue }) => (
+                <span className="text-gray-700">
+                  {getValue()}/{boards.length}
+                </span>
+              ),
+            }),
+            ...boards.map((board) =>
+              columnHelper.accessor((row) => !!row.boardSupport?.[board.id], {
+                id: `board_${board.id}`,
+                header: board.name,
+                cell: ({ row }) => {
+                  const support = row.original.boardSupport?.[board.id];
+                  const details = support
+                    ? [
+                        support.supportedSpeed && `Supported speed: ${support.supportedSpeed}`,
+                        support.dimmSocketSupport && `DIMM sockets: ${support.dimmSocketSupport}`,
+                        support.bios && `BIOS: ${support.bios}`,
+                      ]
+                        .filter(Boolean)
+                        .join("\n")
+                    : "Not on this board's QVL";
+                  return (
+                    <span
+                      title={details}
+                      className="inline-flex items-center justify-center w-5 h-5 rounded border border-gray-300 bg-white"
+                    >
+                      {support ? <Check className="h-4 w-4 text-green-600" /> : null}
+                    </span>
+                  );
+                },
+              })
+            ),
+          ]
+        : []),
       // Dynamic columns for unknown fields
       ...(() => {
         if (data.length === 0) return [];
@@ -400,21 +761,9 @@ export default function RAMTable({
         );
       })(),
     ],
-    [onRefreshPrices, isLoading, data]
+    [onRefreshPrices, rowStatus, data, boards, population, imcProfile, priceHistories, watchlist, onToggleWatch, multiBoard, multiNumberFilter, valueWeights, bestValue]
   );
 
-  // Filter data based on price filter
-  const filteredData = useMemo(() => {
-    if (priceFilter === "all") return data;
-    if (priceFilter === "with_price") {
-      return data.filter(row => row.price !== undefined && row.price > 0);
-    }
-    if (priceFilter === "without_price") {
-      return data.filter(row => !row.price || row.price === 0);
-    }
-    return data;
-  }, [data, priceFilter]);
-
   const table = useReactTable({
     data: filteredData,
     columns,
@@ -422,8 +771,11 @@ export default function RAMTable({
       sorting,
       columnFilters,
       globalFilter,
+      expanded,
     },
     onSortingChange: setSorting,
+    onExpandedChange: setExpanded,
+    getRowCanExpand: (row) => (row.original.offers?.length ?? 0) > 0,
     onColumnFiltersChange: setColumnFilters,
     onGlobalFilterChange: setGlobalFilter,
     getCoreRowModel: getCoreRowModel(),
@@ -454,6 +806,18 @@ export default function RAMTable({
           </div>
 
           <div className="flex items-center gap-4">
+            {/* Board Coverage Filter */}
+            {multiBoard && (
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={everyBoardOnly}
+                  onChange={(e) => setEveryBoardOnly(e.target.checked)}
+                />
+                On every board ({data.filter(row => supportedBoardCount(row) === boards.length).length})
+              </label>
+            )}
+
             {/* Price Filter */}
             <div className="flex items-center gap-2">
               <span className="text-sm text-gray-600">Price Status:</span>
@@ -478,11 +842,11 @@ export default function RAMTable({
                 const filteredRows = table.getFilteredRowModel().rows.map(row => row.original);
                 onRefreshAllPrices(filteredRows);
               }}
-              disabled={isLoading || table.getFilteredRowModel().rows.length === 0}
+              disabled={isRefreshing || table.getFilteredRowModel().rows.length === 0}
               className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed rounded-md transition-colors flex items-center gap-2"
             >
-              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
-              {isLoading ? 'Refreshing...' : `Refresh Filtered (${table.getFilteredRowModel().rows.length})`}
+              <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              {isRefreshing ? 'Refreshing...' : `Refresh Filtered (${table.getFilteredRowModel().rows.length})`}
             </button>
 
             <div className="flex items-center space-x-2">
@@ -533,6 +897,14 @@ export default function RAMTable({
             <option value="Single">Single</option>
             <option value="Dual">Dual</option>
           </select>
+          <MultiSelect
+            options={uniqueDensities.map((d) => ({ label: `${d} ICs`, value: d }))}
+            value={
+              (table.getColumn("icDensity")?.getFilterValue() as string[]) ?? []
+            }
+            onChange={(next) => table.getColumn("icDensity")?.setFilterValue(next)}
+            placeholder="IC density"
+          />
           <select
             className="input-field"
             value={
@@ -559,10 +931,32 @@ export default function RAMTable({
             <option value="true">EXPO (yes)</option>
             <option value="false">EXPO (no)</option>
           </select>
+          <MultiSelect
+            options={uniqueCasLatencies.map((v) => ({ label: `CL${v}`, value: v }))}
+            value={
+              (table.getColumn("casLatency")?.getFilterValue() as number[]) ?? []
+            }
+            onChange={(next) => table.getColumn("casLatency")?.setFilterValue(next)}
+            placeholder="CAS latency"
+          />
+          <MultiSelect
+            options={uniqueTrcds.map((v) => ({ label: `tRCD ${v}`, value: v }))}
+            value={(table.getColumn("trcd")?.getFilterValue() as number[]) ?? []}
+            onChange={(next) => table.getColumn("trcd")?.setFilterValue(next)}
+            placeholder="tRCD"
+          />
+          <MultiSelect
+            options={uniqueVoltages.map((v) => ({ label: `${v.toFixed(2)} V`, value: v }))}
+            value={
+              (table.getColumn("voltage")?.getFilterValue() as number[]) ?? []
+            }
+            onChange={(next) => table.getColumn("voltage")?.setFilterValue(next)}
+            placeholder="Voltage"
+          />
         </div>
 
         {/* Sliders grouped below for better spacing */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <RangeSlider
             min={Math.floor(minSpeed)}
             max={Math.ceil(maxSpeed)}
@@ -614,6 +1008,47 @@ export default function RAMTable({
             snapValues={sizeTotVals}
             label="Total (GB)"
           />
+          {latencyNumbers.length > 0 && (
+            <RangeSlider
+              min={Math.floor(Math.min(...latencyNumbers))}
+              max={Math.ceil(Math.max(...latencyNumbers))}
+              value={
+                (table.getColumn("latencyNs")?.getFilterValue() as [
+                  number,
+                  number
+                ]) ?? undefined
+              }
+              onChange={(next) =>
+                table.getColumn("latencyNs")?.setFilterValue(next)
+              }
+              step={0.5}
+              label="First-word latency (ns)"
+            />
+          )}
+        </div>
+
+        {/* Value score weights */}
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          <span>Value score weights:</span>
+          {(["speed", "latency", "die"] as (keyof ValueScoreWeights)[]).map((key) => (
+            <label key={key} className="flex items-center gap-2">
+              <span className="capitalize">{key}</span>
+              <input
+                type="range"
+                min={0}
+                max={3}
+                step={0.5}
+                value={valueWeights[key]}
+                onChange={(e) =>
+                  setValueWeights((prev) => ({ ...prev, [key]: Number(e.target.value) }))
+                }
+              />
+              <span className="w-6 text-gray-900">{valueWeights[key]}</span>
+            </label>
+          ))}
+          <span className="text-xs text-gray-500">
+            Score points per 1000 {data.find((d) => d.currency)?.currency ?? "SEK"}; the best value in each capacity is highlighted
+          </span>
         </div>
 
         <div className="flex items-center space-x-2 self-end">
@@ -713,13 +1148,22 @@ export default function RAMTable({
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {table.getRowModel().rows.map((row) => (
-              <tr key={row.id} className="hover:bg-gray-50">
-                {row.getVisibleCells().map((cell) => (
-                  <td key={cell.id} className="table-cell">
-                    {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                  </td>
-                ))}
-              </tr>
+              <Fragment key={row.id}>
+                <tr className={bestValue.has(row.original) ? "bg-green-50 hover:bg-green-100" : "hover:bg-gray-50"}>
+                  {row.getVisibleCells().map((cell) => (
+                    <td key={cell.id} className="table-cell">
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    </td>
+                  ))}
+                </tr>
+                {row.getIsExpanded() && (
+                  <tr>
+                    <td colSpan={row.getVisibleCells().length} className="px-6 pb-4">
+                      <OfferPanel offers={row.original.offers ?? []} />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
             ))}
           </tbody>
         </table>
@@ -0,0 +1,57 @@
+'use client';
+
+import { Pause, Play, X } from 'lucide-react';
+import { JobProgress, formatEta } from '@/lib/job-runner';
+
+interface RefreshProgressProps {
+  progress: JobProgress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+// Progress of a bulk price refresh with its controls
+export default function RefreshProgress({ progress, onPause, onResume, onCancel }: RefreshProgressProps) {
+  const { state, total, completed, counts, etaMs } = progress;
+  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+  return (
+    <div className="mb-4 border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-blue-900">
+          {state === 'paused' ? 'Paused' : 'Refreshing prices'}: {completed} of {total}
+          {etaMs !== undefined && state === 'running' && (
+            <span className="font-normal text-blue-700"> · about {formatEta(etaMs)} left</span>
+          )}
+        </span>
+        <div className="flex items-center gap-2">
+          {state === 'paused' ? (
+            <button type="button" onClick={onResume} className="btn-secondary text-xs py-1 px-2 flex items-center">
+              <Play className="h-3 w-3 mr-1" />
+              Resume
+            </button>
+          ) : (
+            <button type="button" onClick={onPause} className="btn-secondary text-xs py-1 px-2 flex items-center">
+              <Pause className="h-3 w-3 mr-1" />
+              Pause
+            </button>
+          )}
+          <button type="button" onClick={onCancel} className="btn-secondary text-xs py-1 px-2 flex items-center">
+            <X className="h-3 w-3 mr-1" />
+            Cancel
+          </button>
+        </div>
+      </div>
+      <div className="h-2 bg-blue-100 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-blue-800">
+        <span>{counts.searching} searching</span>
+        <span>{counts.queued} queued</span>
+        <span className="text-green-700">{counts.found} found</span>
+        <span>{counts.not_found} not found</span>
+        {counts.error > 0 && <span className="text-red-700">{counts.error} failed</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { ArrowRight } from 'lucide-react';
+
+interface TablePreviewProps {
+  title: string;
+  description?: string;
+  cells: string[][];
+  onContinue: () => void;
+  onCancel: () => void;
+  maxRows?: number;
+}
+
+// Read-only look at extracted cells before they go through column mapping
+export default function TablePreview({
+  title,
+  description,
+  cells,
+  onContinue,
+  onCancel,
+  maxRows = 25,
+}: TablePreviewProps) {
+  const width = cells.reduce((max, row) => Math.max(max, row.length), 0);
+  const visible = cells.slice(0, maxRows);
+
+  return (
+    <div className="w-full space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">{title}</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          {description ? `${description} ` : ''}
+          {cells.length} rows × {width} columns extracted
+          {cells.length > maxRows ? `; showing the first ${maxRows}` : ''}.
+        </p>
+      </div>
+
+      <div className="overflow-auto max-h-96 border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-xs">
+          <tbody className="bg-white divide-y divide-gray-100">
+            {visible.map((row, rowIndex) => (
+              // biome-ignore lint/suspicious/noArrayIndexKey: preview rows have no identity beyond position
+              <tr key={rowIndex} className={rowIndex === 0 ? 'bg-gray-50 font-medium' : undefined}>
+                <td className="px-2 py-1 text-gray-400 font-mono">{rowIndex + 1}</td>
+                {Array.from({ length: width }, (_, col) => (
+                  // biome-ignore lint/suspicious/noArrayIndexKey: columns are positional
+                  <td key={col} className="px-2 py-1 text-gray-700 whitespace-nowrap">
+                    {row[col] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        <button type="button" onClick={onCancel} className="btn-secondary">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={onContinue}
+          disabled={cells.length === 0}
+          className="btn-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Continue to Column Mapping
+          <ArrowRight className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
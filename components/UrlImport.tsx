@@ -0,0 +1,146 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { Link, RefreshCw } from 'lucide-react';
+import TablePreview from '@/components/TablePreview';
+import { RawTable, buildRawTable } from '@/lib/csv-parser';
+import { readWorkbook, sheetToCells } from '@/lib/spreadsheet';
+
+interface UrlImportProps {
+  onTableLoaded: (table: RawTable, sourceName: string) => void;
+  onError: (error: string) => void;
+}
+
+interface FetchedTables {
+  source: string;
+  tables: { name: string; cells: string[][] }[];
+}
+
+export default function UrlImport({ onTableLoaded, onError }: UrlImportProps) {
+  const [url, setUrl] = useState('');
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetched, setFetched] = useState<FetchedTables | null>(null);
+  const [tableIndex, setTableIndex] = useState(0);
+
+  const handleFetch = useCallback(async () => {
+    setIsFetching(true);
+    try {
+      // Fetched server-side; vendor pages do not allow cross-origin reads
+      const res = await fetch('/api/import/url', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        onError(data.error || 'Failed to import from URL');
+        return;
+      }
+
+      let result = data as FetchedTables;
+      if (typeof data.workbook === 'string') {
+        // Workbooks arrive as base64 bytes and are parsed here, never on the server
+        const bytes = Uint8Array.from(atob(data.workbook), c => c.charCodeAt(0));
+        const workbook = readWorkbook(bytes.buffer);
+        const tables = workbook.SheetNames
+          .map(name => ({ name, cells: sheetToCells(workbook, name) }))
+          .filter(table => table.cells.some(row => row.some(Boolean)));
+        if (tables.length === 0) {
+          onError('No table found at that URL');
+          return;
+        }
+        result = { source: data.source, tables };
+      }
+      // Start on the biggest table; that is nearly always the QVL
+      let largest = 0;
+      result.tables.forEach((table, i) => {
+        if (table.cells.length > result.tables[largest].cells.length) largest = i;
+      });
+      setTableIndex(largest);
+      setFetched(result);
+    } catch (error) {
+      onError(`Error importing from URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsFetching(false);
+    }
+  }, [url, onError]);
+
+  const handleContinue = useCallback(() => {
+    if (!fetched) return;
+    const selected = fetched.tables[tableIndex];
+    const table = buildRawTable(selected.cells);
+    if (table.rows.length === 0) {
+      onError('The selected table has no data rows.');
+      return;
+    }
+    const host = new URL(fetched.source).hostname;
+    onTableLoaded(table, fetched.tables.length > 1 ? `${host} › ${selected.name}` : host);
+    setFetched(null);
+    setUrl('');
+  }, [fetched, tableIndex, onTableLoaded, onError]);
+
+  if (fetched) {
+    return (
+      <div className="border border-gray-200 rounded-lg p-4 md:col-span-2 space-y-3">
+        {fetched.tables.length > 1 && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">Table:</span>
+            <select
+              value={tableIndex}
+              onChange={(e) => setTableIndex(Number(e.target.value))}
+              className="input-field py-1 text-sm"
+            >
+              {fetched.tables.map((table, i) => (
+                <option key={table.name} value={i}>
+                  {table.name} ({table.cells.length} rows)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <TablePreview
+          title="URL Import Preview"
+          description={`From ${fetched.source}.`}
+          cells={fetched.tables[tableIndex]?.cells ?? []}
+          onContinue={handleContinue}
+          onCancel={() => setFetched(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 flex flex-col">
+      <div className="flex items-center text-sm font-medium text-gray-900 mb-2">
+        <Link className="h-4 w-4 mr-2 text-gray-500" />
+        Import from URL
+      </div>
+      <p className="text-xs text-gray-500 mb-2 flex-1">
+        A vendor QVL page with an HTML table, or a direct link to a CSV or spreadsheet file.
+      </p>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleFetch();
+        }}
+        className="flex items-center gap-2"
+      >
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://…"
+          className="input-field flex-1 text-sm"
+          disabled={isFetching}
+        />
+        <button
+          type="submit"
+          disabled={!url.trim() || isFetching}
+          className="btn-primary text-sm py-2 px-3 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isFetching ? <RefreshCw className="h-4 w-4 animate-spin" /> : 'Fetch'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { Bell, ChevronDown, ChevronRight, Star, X } from 'lucide-react';
+import { WatchEntry } from '@/lib/watchlist';
+
+interface WatchlistPanelProps {
+  watchlist: WatchEntry[];
+  onToggleWatch: (module: string) => void;
+  onTargetPriceChange: (module: string, targetPrice: number | undefined) => void;
+}
+
+// Starred modules with their alert thresholds. Alerts fire when a price refresh finds the best
+// in-stock price at or below the target, or a module back in stock.
+export default function WatchlistPanel({ watchlist, onToggleWatch, onTargetPriceChange }: WatchlistPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [permission, setPermission] = useState(() =>
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+
+  const requestPermission = async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between p-4">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center text-sm font-medium text-gray-900"
+        >
+          {isOpen ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+          <Star className="h-4 w-4 mr-2 text-gray-500" />
+          Watchlist
+        </button>
+        <span className="text-sm text-gray-500">{watchlist.length} watched</span>
+      </div>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          {permission === 'default' && (
+            <button type="button" onClick={requestPermission} className="btn-secondary text-sm flex items-center">
+              <Bell className="h-4 w-4 mr-1" />
+              Enable browser notifications
+            </button>
+          )}
+          {permission === 'denied' && (
+            <p className="text-xs text-gray-500">Browser notifications are blocked for this site.</p>
+          )}
+
+          {watchlist.length === 0 ? (
+            <p className="text-sm text-gray-500">Star modules in the table below to watch their price and stock.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {watchlist.map(entry => (
+                <li key={entry.module} className="flex items-center justify-between gap-3 py-2">
+                  <div>
+                    <div className="font-mono text-sm text-gray-900">{entry.module}</div>
+                    <div className="text-xs text-gray-500">
+                      {entry.lastPrice !== undefined
+                        ? `Last in stock at ${entry.lastPrice.toLocaleString()}`
+                        : entry.lastAvailability
+                          ? 'Not in stock at last check'
+                          : 'Not checked yet'}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label className="text-xs text-gray-600">
+                      Alert at or below
+                      <input
+                        type="number"
+                        step={50}
+                        value={entry.targetPrice ?? ''}
+                        onChange={(e) => onTargetPriceChange(entry.module, e.target.value ? Number(e.target.value) : undefined)}
+                        placeholder="Stock only"
+                        className="input-field py-1 text-sm ml-2 w-28"
+                      />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => onToggleWatch(entry.module)}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Stop watching"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
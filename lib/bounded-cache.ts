@@ -0,0 +1,41 @@
+// In-memory cache with a time to live and a size cap. Expired entries are swept on every
+// write, and once the cap is reached the least recently used entries are dropped, so a
+// long-running server keeps a bounded set of recent lookups.
+
+export class BoundedCache<V> {
+  // Map iteration order is insertion order; reads re-insert, so the first key is the least recent
+  private readonly entries = new Map<string, { at: number; value: V }>();
+
+  constructor(private readonly ttlMs: number, private readonly maxEntries: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string, now = Date.now()): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (now - entry.at >= this.ttlMs) return undefined;
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V, now = Date.now()): void {
+    this.entries.delete(key);
+    for (const [k, entry] of Array.from(this.entries)) {
+      if (now - entry.at >= this.ttlMs) this.entries.delete(k);
+    }
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    this.entries.set(key, { at: now, value });
+  }
+
+  // Drop the key only while it still holds this value
+  deleteIf(key: string, value: V): void {
+    if (this.entries.get(key)?.value === value) this.entries.delete(key);
+  }
+}
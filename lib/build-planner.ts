@@ -0,0 +1,79 @@
+import { adviseModule, validatedPopulations } from '@/lib/dimm-population';
+import { normalizedSku } from '@/lib/sku';
+import { RAMModuleWithPrice } from '@/types/ram';
+
+// Build planner: which kits, bought once or several times, give the wanted capacity in the
+// available slots, ranked by total price
+
+export interface BuildRequirements {
+  capacityGB: number;
+  slots: number;
+  minSpeed?: number;
+  profile?: 'any' | 'xmp' | 'expo';
+  // Highest total price, in the currency of the fetched offers
+  budget?: number;
+}
+
+export interface BuildOption {
+  module: RAMModuleWithPrice;
+  // Identical kits to buy
+  kits: number;
+  sticks: number;
+  totalPrice: number;
+  currency?: string;
+  warnings: string[];
+}
+
+function speedOf(module: RAMModuleWithPrice): number {
+  return Number(String(module.ramSpeed ?? '').replace(/[^0-9.]/g, '')) || 0;
+}
+
+// Sticks in one kit; a single stick when the QVL and part number do not say
+function kitSticks(module: RAMModuleWithPrice): number {
+  if (module.sticks) return module.sticks;
+  if (module.totalSizeGB && module.perStickSizeGB) return Math.round(module.totalSizeGB / module.perStickSizeGB);
+  return 1;
+}
+
+/**
+ * Options for a build: every priced kit that reaches exactly the wanted capacity with at most
+ * `slots` sticks, bought as one or more identical kits. Kits are never mixed. Options are
+ * sorted by total price, faster kits first on ties.
+ */
+export function planBuilds(modules: RAMModuleWithPrice[], requirements: BuildRequirements): BuildOption[] {
+  const { capacityGB, slots, minSpeed, profile = 'any', budget } = requirements;
+  const seen = new Set<string>();
+  const options: BuildOption[] = [];
+
+  for (const module of modules) {
+    const sku = normalizedSku(module.module);
+    if (seen.has(sku) || !module.price || !module.perStickSizeGB) continue;
+    if (minSpeed && speedOf(module) < minSpeed) continue;
+    if (profile === 'xmp' && !module.xmpBool) continue;
+    if (profile === 'expo' && !module.expoBool) continue;
+
+    const perKit = kitSticks(module);
+    const sticks = capacityGB / module.perStickSizeGB;
+    const kits = sticks / perKit;
+    if (!Number.isInteger(sticks) || !Number.isInteger(kits) || sticks > slots) continue;
+
+    // Skip kits the QVL lists for other populations only
+    const populations = validatedPopulations(module);
+    if (populations.length > 0 && !populations.includes(sticks)) continue;
+
+    const totalPrice = module.price * kits;
+    if (budget && totalPrice > budget) continue;
+
+    seen.add(sku);
+    options.push({
+      module,
+      kits,
+      sticks,
+      totalPrice,
+      currency: module.currency,
+      warnings: adviseModule(module, { dimms: sticks }).warnings,
+    });
+  }
+
+  return options.sort((a, b) => a.totalPrice - b.totalPrice || speedOf(b.module) - speedOf(a.module));
+}
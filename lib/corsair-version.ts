@@ -0,0 +1,31 @@
+import versionCodes from '@/lib/data/corsair-version-codes.json';
+
+// Corsair "ver X.YY.ZZ" suffixes (e.g. "CMH32GX5M2B6000C30 ver 5.53.13"): X is the DRAM maker,
+// YY the IC density and ZZ the die revision. The lookup table lives in
+// lib/data/corsair-version-codes.json; unknown codes still yield what is known.
+
+export interface CorsairVersion {
+  code: string;
+  manufacturer?: string;
+  density?: string;
+  // Normalized chip name, e.g. "Hynix M-die"
+  chip?: string;
+}
+
+const { makers, densities, dies } = versionCodes as {
+  makers: Record<string, string>;
+  densities: Record<string, string>;
+  dies: Record<string, string>;
+};
+
+export function parseCorsairVersion(module: string): CorsairVersion | null {
+  const m = module.match(/\bver\.?\s*(\d)\.(\d{2})\.(\d{2})\b/i);
+  if (!m) return null;
+  const [, maker, density, revision] = m;
+  return {
+    code: `${maker}.${density}.${revision}`,
+    manufacturer: makers[maker],
+    density: densities[density],
+    chip: dies[`${maker}.${revision}`],
+  };
+}
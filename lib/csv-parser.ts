@@ -1,3 +1,13 @@
+import { QVLProfile, detectQVLProfile } from '@/lib/qvl-profiles';
+import { MappingPreset, findMappingPreset } from '@/lib/mapping-presets';
+import { ImportIssue, ImportReport, createImportReport } from '@/lib/import-report';
+import { identifyDie } from '@/lib/die-knowledge-base';
+import { parseCorsairVersion } from '@/lib/corsair-version';
+import { inferDie, isVagueChip } from '@/lib/die-inference';
+import { deriveOrganization } from '@/lib/organization';
+import { decodePartNumber } from '@/lib/part-number';
+import { parseCasLatency, parseTimings, parseVoltage } from '@/lib/timings';
+
 // Intelligent CSV column detection and mapping
 export interface ColumnMapping {
   type: string | null;
@@ -14,10 +24,91 @@ export interface ColumnMapping {
   oc: string | null;
   bios: string | null;
   note: string | null;
+  casLatency: string | null;
+  timings: string | null;
+  voltage: string | null;
   // Allow unknown columns to pass through
   unknown: string[];
 }
 
+export type ColumnField = Exclude<keyof ColumnMapping, 'unknown'>;
+
+// Rows from any import source, keyed by column name and ready for detection
+export interface RawTable {
+  columns: string[];
+  rows: Record<string, string>[];
+  // Positional profile applied when the source had no header row
+  profile: QVLProfile | null;
+  // Source line number (1-based) of each entry in rows
+  lines: number[];
+  // Rows dropped while building the table (e.g. repeated header rows)
+  issues: ImportIssue[];
+}
+
+// Where a table's initial mapping came from
+export interface TableMapping {
+  mapping: ColumnMapping;
+  source: 'preset' | 'profile' | 'fuzzy';
+  presetName?: string;
+}
+
+// Define patterns for each field (ordered by priority)
+const fieldPatterns: Record<ColumnField, string[]> = {
+  type: ['type', 'memory type', 'ddr', 'ram type'],
+  vendor: ['vendor', 'brand', 'manufacturer', 'maker', 'company'],
+  ramSpeed: ['ram speed', 'speed', 'frequency', 'mhz', 'ram_speed', 'ramSpeed'],
+  supportedSpeed: ['supported speed', 'supported_speed', 'supportedSpeed', 'compatible speed'],
+  size: ['size', 'capacity', 'gb', 'memory size', 'module size'],
+  module: ['module', 'model', 'part number', 'sku', 'product', 'partnumber', 'model number'],
+  chip: ['chip', 'die', 'memory chip', 'ic', 'die type'],
+  ssDs: ['ss/ds', 'ssds', 'ss_ds', 'single sided', 'double sided', 'rank', 'sided'],
+  xmp: ['xmp', 'intel xmp', 'extreme memory profile'],
+  expo: ['expo', 'amd expo', 'extended profiles for overclocking'],
+  dimmSocketSupport: ['dimm', 'socket', 'pin', 'dimm socket', 'socket support', 'dimm_socket'],
+  oc: ['oc', 'overclock', 'overclocking', 'overclockable'],
+  bios: ['bios', 'firmware', 'version', 'bios version'],
+  note: ['note', 'notes', 'comment', 'comments', 'description', 'remarks'],
+  // Kept to longer patterns: short ones like "cl" would match an "Overclocking" column
+  casLatency: ['cas latency', 'cas_latency', 'cl latency'],
+  timings: ['timings', 'timing', 'latency timings'],
+  voltage: ['voltage', 'dram voltage', 'vdd']
+};
+
+// Display names for each mappable field
+export const columnFieldLabels: Record<ColumnField, string> = {
+  type: 'Type',
+  vendor: 'Vendor',
+  ramSpeed: 'RAM Speed',
+  supportedSpeed: 'Supported Speed',
+  size: 'Size',
+  module: 'Module',
+  chip: 'Chip',
+  ssDs: 'SS/DS',
+  xmp: 'XMP',
+  expo: 'EXPO',
+  dimmSocketSupport: 'DIMM Socket Support',
+  oc: 'OC',
+  bios: 'BIOS',
+  note: 'Note',
+  casLatency: 'CAS Latency',
+  timings: 'Timings',
+  voltage: 'Voltage'
+};
+
+export const columnFields = Object.keys(fieldPatterns) as ColumnField[];
+
+// Optional fields only map on a name match, never on character similarity alone
+const fieldThresholds: Partial<Record<ColumnField, number>> = {
+  casLatency: 60,
+  timings: 60,
+  voltage: 60,
+};
+
+// Confidence (0-100) that a source column holds the given field
+export function columnFieldScore(field: ColumnField, column: string): number {
+  return Math.round(fuzzyMatch(column, fieldPatterns[field]));
+}
+
 // Fuzzy string matching function
 function fuzzyMatch(str: string, patterns: string[]): number {
   const normalizedStr = str.toLowerCase().replace(/[^a-z0-9]/g, '');
@@ -57,13 +148,13 @@ function fuzzyMatch(str: string, patterns: string[]): number {
 }
 
 // Find best matching column for a given field
-function findBestMatch(columns: string[], patterns: string[]): string | null {
+function findBestMatch(columns: string[], patterns: string[], threshold = 30): string | null {
   let bestColumn: string | null = null;
   let bestScore = 0;
   
   for (const column of columns) {
     const score = fuzzyMatch(column, patterns);
-    if (score > bestScore && score > 30) { // Minimum threshold
+    if (score > bestScore && score > threshold) { // Minimum threshold
       bestScore = score;
       bestColumn = column;
     }
@@ -72,8 +163,147 @@ function findBestMatch(columns: string[], patterns: string[]): string | null {
   return bestColumn;
 }
 
-export function detectColumnMapping(columns: string[]): ColumnMapping {
-  const mapping: ColumnMapping = {
+export function detectColumnMapping(columns: string[], presets: MappingPreset[] = []): ColumnMapping {
+  // A saved preset for this exact header list beats fuzzy matching
+  const preset = findMappingPreset(columns, presets);
+  if (preset) return mappingFromAssignments(preset.mapping, columns);
+
+  const mapping = emptyColumnMapping();
+
+  // Track which columns have been mapped
+  const mappedColumns = new Set<string>();
+
+  // Map known fields
+  columnFields.forEach((fieldKey) => {
+    const patterns = fieldPatterns[fieldKey];
+    const bestMatch = findBestMatch(columns, patterns, fieldThresholds[fieldKey]);
+    if (bestMatch) {
+      (mapping as any)[fieldKey] = bestMatch;
+      mappedColumns.add(bestMatch);
+    }
+  });
+
+  // Add unmapped columns to unknown array
+  mapping.unknown = columns.filter(col => !mappedColumns.has(col));
+
+  return mapping;
+}
+
+// A first row made of speeds, sizes or DDR types is data, not a header
+export function looksLikeDataRow(cells: string[]): boolean {
+  const filled = cells.map(c => String(c ?? '').trim()).filter(Boolean);
+  if (filled.length === 0) return false;
+  if (/^ddr\d$/i.test(filled[0])) return true;
+
+  const dataLike = filled.filter(c =>
+    /^ddr\d/i.test(c) || /^\d+(\.\d+)?$/.test(c) || /^\d+(\.\d+)?\s*gb$/i.test(c)
+  );
+  return dataLike.length >= 2;
+}
+
+// Build a keyed table from raw cells, applying a positional profile when there is no header.
+// Cells are expected one row per source line so diagnostics can point at line numbers.
+export function buildRawTable(cells: string[][]): RawTable {
+  const nonEmpty = cells
+    .map((row, index) => ({ line: index + 1, cells: row.map(c => String(c ?? '').trim()) }))
+    .filter(row => row.cells.some(Boolean));
+  if (nonEmpty.length === 0) return { columns: [], rows: [], profile: null, lines: [], issues: [] };
+
+  const width = Math.max(...nonEmpty.map(row => row.cells.length));
+  const first = nonEmpty[0].cells;
+
+  let profile: QVLProfile | null = null;
+  let columns: string[];
+  let dataRows = nonEmpty;
+
+  if (looksLikeDataRow(first)) {
+    profile = detectQVLProfile(first);
+    const labels = profile.columns.map(column => column.label);
+    columns = uniqueColumnNames(Array.from({ length: Math.max(width, labels.length) }, (_, i) => labels[i] ?? ''));
+  } else {
+    columns = uniqueColumnNames(Array.from({ length: width }, (_, i) => first[i] ?? ''));
+    dataRows = nonEmpty.slice(1);
+  }
+
+  // Concatenated dumps sometimes repeat a header row part-way through
+  const issues: ImportIssue[] = [];
+  const kept = dataRows.filter((row) => {
+    if (!isHeaderRowFor(row.cells, columns)) return true;
+    issues.push({ kind: 'skipped', line: row.line, raw: row.cells.join(','), message: 'Repeated header row' });
+    return false;
+  });
+
+  return {
+    columns,
+    rows: kept.map(row => toRecord(row.cells, columns)),
+    profile,
+    lines: kept.map(row => row.line),
+    issues,
+  };
+}
+
+// Mapping taken straight from a positional profile; no fuzzy matching needed
+export function profileColumnMapping(profile: QVLProfile, columns: string[]): ColumnMapping {
+  const mapping = emptyColumnMapping();
+  const mappedColumns = new Set<string>();
+
+  profile.columns.forEach((column, i) => {
+    if (column.field && columns[i]) {
+      mapping[column.field] = columns[i];
+      mappedColumns.add(columns[i]);
+    }
+  });
+
+  mapping.unknown = columns.filter(col => !mappedColumns.has(col));
+  return mapping;
+}
+
+// Build a full mapping from per-field choices; columns nobody claimed pass through as unknown
+export function mappingFromAssignments(
+  assignments: Partial<Record<ColumnField, string | null>>,
+  columns: string[]
+): ColumnMapping {
+  const mapping = emptyColumnMapping();
+  const mappedColumns = new Set<string>();
+
+  columnFields.forEach((field) => {
+    const column = assignments[field];
+    if (column && columns.includes(column)) {
+      mapping[field] = column;
+      mappedColumns.add(column);
+    }
+  });
+
+  mapping.unknown = columns.filter(col => !mappedColumns.has(col));
+  return mapping;
+}
+
+// Pick the mapping for a freshly loaded table: saved preset, then positional profile, then fuzzy
+export function detectTableMapping(table: RawTable, presets: MappingPreset[] = []): TableMapping {
+  const preset = findMappingPreset(table.columns, presets);
+  if (preset) {
+    return { mapping: mappingFromAssignments(preset.mapping, table.columns), source: 'preset', presetName: preset.name };
+  }
+  if (table.profile) {
+    return { mapping: profileColumnMapping(table.profile, table.columns), source: 'profile' };
+  }
+  return { mapping: detectColumnMapping(table.columns), source: 'fuzzy' };
+}
+
+// First few distinct non-empty values of a column, for previews
+export function sampleColumnValues(table: RawTable, column: string | null, limit = 3): string[] {
+  if (!column) return [];
+  const values: string[] = [];
+  for (const row of table.rows) {
+    const value = row[column];
+    if (value && !values.includes(value)) values.push(value);
+    if (values.length >= limit) break;
+  }
+  return values;
+}
+
+function emptyColumnMapping(): ColumnMapping {
+  return {
     type: null,
     vendor: null,
     ramSpeed: null,
@@ -88,69 +318,131 @@ export function detectColumnMapping(columns: string[]): ColumnMapping {
     oc: null,
     bios: null,
     note: null,
+    casLatency: null,
+    timings: null,
+    voltage: null,
     unknown: []
   };
+}
 
-  // Define patterns for each field (ordered by priority)
-  const fieldPatterns: Record<Exclude<keyof ColumnMapping, 'unknown'>, string[]> = {
-    type: ['type', 'memory type', 'ddr', 'ram type'],
-    vendor: ['vendor', 'brand', 'manufacturer', 'maker', 'company'],
-    ramSpeed: ['ram speed', 'speed', 'frequency', 'mhz', 'ram_speed', 'ramSpeed'],
-    supportedSpeed: ['supported speed', 'supported_speed', 'supportedSpeed', 'compatible speed'],
-    size: ['size', 'capacity', 'gb', 'memory size', 'module size'],
-    module: ['module', 'model', 'part number', 'sku', 'product', 'partnumber', 'model number'],
-    chip: ['chip', 'die', 'memory chip', 'ic', 'die type'],
-    ssDs: ['ss/ds', 'ssds', 'ss_ds', 'single sided', 'double sided', 'rank', 'sided'],
-    xmp: ['xmp', 'intel xmp', 'extreme memory profile'],
-    expo: ['expo', 'amd expo', 'extended profiles for overclocking'],
-    dimmSocketSupport: ['dimm', 'socket', 'pin', 'dimm socket', 'socket support', 'dimm_socket'],
-    oc: ['oc', 'overclock', 'overclocking', 'overclockable'],
-    bios: ['bios', 'firmware', 'version', 'bios version'],
-    note: ['note', 'notes', 'comment', 'comments', 'description', 'remarks']
-  };
+function uniqueColumnNames(names: string[]): string[] {
+  const seen = new Map<string, number>();
+  return names.map((name, i) => {
+    const base = name || `Column ${i + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+}
 
-  // Track which columns have been mapped
-  const mappedColumns = new Set<string>();
+function isHeaderRowFor(row: string[], columns: string[]): boolean {
+  const filled = row.filter(Boolean);
+  if (filled.length < 3) return false;
+  return row.every((cell, i) => !cell || cell.toLowerCase() === (columns[i] ?? '').toLowerCase());
+}
 
-  // Map known fields
-  (Object.keys(fieldPatterns) as Array<Exclude<keyof ColumnMapping, 'unknown'>>).forEach((fieldKey) => {
-    const patterns = fieldPatterns[fieldKey];
-    const bestMatch = findBestMatch(columns, patterns);
-    if (bestMatch) {
-      (mapping as any)[fieldKey] = bestMatch;
-      mappedColumns.add(bestMatch);
-    }
+function toRecord(row: string[], columns: string[]): Record<string, string> {
+  const record: Record<string, string> = {};
+  columns.forEach((column, i) => {
+    record[column] = row[i] ?? '';
   });
+  return record;
+}
 
-  // Add unmapped columns to unknown array
-  mapping.unknown = columns.filter(col => !mappedColumns.has(col));
+// Parse a whole table and collect line-level diagnostics alongside the modules
+export function parseTableWithReport(table: RawTable, columnMap: ColumnMapping, source?: string) {
+  const report = createImportReport(source);
+  report.issues.push(...table.issues);
+  report.totalRows = table.rows.length + table.issues.filter(issue => issue.kind === 'skipped').length;
 
-  return mapping;
+  const modules = parseCSVData(table.rows, columnMap, report, table.lines);
+  report.importedRows = modules.length;
+
+  return { modules, report };
 }
 
-// Enhanced CSV parsing with unknown column support
-export function parseCSVData(data: any[], columnMap: ColumnMapping) {
+// Enhanced CSV parsing with unknown column support.
+// When a report is passed, skipped rows, defaulted fields and unparseable values are recorded in it.
+export function parseCSVData(data: any[], columnMap: ColumnMapping, report?: ImportReport, lines?: number[]) {
   return data.map((row, index) => {
     const getValue = (columnKey: string | null) => {
       if (!columnKey || !row[columnKey]) return '';
       return String(row[columnKey]).trim();
     };
 
+    const line = lines?.[index] ?? index + 1;
     const module = getValue(columnMap.module);
     const vendor = getValue(columnMap.vendor);
+    const note = (issue: Omit<ImportIssue, 'line' | 'module'>) => {
+      report?.issues.push({ ...issue, line, module: module || undefined });
+    };
     
     // Skip rows without essential data
-    if (!module || !vendor) return null;
+    if (!module || !vendor) {
+      const missing = [!module && 'module', !vendor && 'vendor'].filter(Boolean).join(' and ');
+      note({ kind: 'skipped', raw: Object.values(row).filter(Boolean).join(','), message: `Missing ${missing}` });
+      return null;
+    }
+
+    // Kit SKUs of the major vendors encode speed, CL, stick count and capacity
+    const decoded = decodePartNumber(module, vendor);
 
     // Derive sizes
     const sizeRaw = getValue(columnMap.size);
-    const perStickSizeGB = parseSizeGB(sizeRaw);
-    // Try to derive total size: look for indicators like "K2-32" (2 sticks totaling 32GB) in module or note
-    const { totalSizeGB, sticks } = deriveTotalSizeAndSticks(sizeRaw, getValue(columnMap.module), getValue(columnMap.note));
+    let perStickSizeGB = parseSizeGB(sizeRaw);
+    if (perStickSizeGB === undefined && decoded?.perStickSizeGB !== undefined) {
+      perStickSizeGB = decoded.perStickSizeGB;
+      note({ kind: 'defaulted', field: 'size', raw: sizeRaw, value: `${perStickSizeGB}GB`, message: 'Size taken from part number' });
+    } else if (perStickSizeGB === undefined) {
+      note({
+        kind: 'unparseable',
+        field: 'size',
+        raw: sizeRaw,
+        message: sizeRaw ? 'Size is not in a recognized format' : 'Size is missing',
+      });
+    } else if (decoded?.perStickSizeGB !== undefined && decoded.perStickSizeGB !== perStickSizeGB) {
+      note({
+        kind: 'mismatch',
+        field: 'size',
+        raw: sizeRaw,
+        value: `${decoded.perStickSizeGB}GB`,
+        message: `Part number indicates ${decoded.perStickSizeGB}GB per stick`,
+      });
+    }
+    // Prefer the decoded kit layout; otherwise look for indicators like "K2-32" (2 sticks totaling 32GB) in module or note
+    const { totalSizeGB, sticks } = decoded?.sticks && decoded.totalSizeGB !== undefined
+      ? { totalSizeGB: decoded.totalSizeGB, sticks: decoded.sticks }
+      : deriveTotalSizeAndSticks(sizeRaw, getValue(columnMap.module), getValue(columnMap.note));
+
+    let ramSpeedRaw = getValue(columnMap.ramSpeed);
+    if (!ramSpeedRaw && decoded?.speed) {
+      ramSpeedRaw = String(decoded.speed);
+      note({ kind: 'defaulted', field: 'ramSpeed', value: ramSpeedRaw, message: 'RAM speed taken from part number' });
+    } else if (!/^\d+(\.\d+)?$/.test(ramSpeedRaw.replace(/\s*(mt\/s|mhz)$/i, ''))) {
+      note({
+        kind: 'unparseable',
+        field: 'ramSpeed',
+        raw: ramSpeedRaw,
+        message: ramSpeedRaw ? 'RAM speed is not a number' : 'RAM speed is missing',
+      });
+    } else if (decoded?.speed && Number(ramSpeedRaw.replace(/[^0-9.]/g, '')) !== decoded.speed) {
+      note({
+        kind: 'mismatch',
+        field: 'ramSpeed',
+        raw: ramSpeedRaw,
+        value: String(decoded.speed),
+        message: `Part number indicates ${decoded.speed} MT/s`,
+      });
+    }
 
     // Derive rank from SS/DS and possible hints
     const ssdsRaw = getValue(columnMap.ssDs).toUpperCase();
     const rank: 'Single' | 'Dual' | 'Unknown' = ssdsRaw === 'SS' ? 'Single' : ssdsRaw === 'DS' ? 'Dual' : 'Unknown';
+    if (!ssdsRaw) {
+      note({ kind: 'defaulted', field: 'ssDs', value: 'SS', message: 'SS/DS missing, assumed single-sided' });
+    } else if (rank === 'Unknown') {
+      note({ kind: 'unparseable', field: 'ssDs', raw: ssdsRaw, message: 'SS/DS is neither SS nor DS' });
+    }
 
     // Normalize XMP/EXPO booleans (v, yes, true -> true)
     const xmpRaw = getValue(columnMap.xmp);
@@ -161,19 +453,80 @@ export function parseCSVData(data: any[], columnMap: ColumnMapping) {
     // Normalize die/chip naming (merge duplicates like "Samsung B" -> "Samsung B-die").
     // Default to 'Unknown' when no die information is present.
     const chipRaw = getValue(columnMap.chip);
-    const chipNormalized = chipRaw ? normalizeDieName(chipRaw) : 'Unknown';
+    const die = chipRaw ? normalizeDieName(chipRaw) : { name: 'Unknown', recognized: false };
+    // A blank chip or a bare maker is filled in from the part number, stick size and speed when possible
+    const inferred = (!chipRaw || die.recognized) && isVagueChip(die.name)
+      ? inferDie(module, {
+        chip: die.name,
+        generation: getValue(columnMap.type) || undefined,
+        speed: Number(ramSpeedRaw.replace(/[^0-9.]/g, '')) || undefined,
+        perStickSizeGB,
+      })
+      : null;
+    const chipNormalized = inferred?.chip ?? die.name;
+    if (!chipRaw) {
+      note({
+        kind: 'defaulted',
+        field: 'chip',
+        value: chipNormalized,
+        message: inferred ? `Chip missing, inferred from ${inferred.reason}` : 'Chip missing',
+      });
+    } else if (!die.recognized) {
+      note({ kind: 'unmatched_chip', field: 'chip', raw: chipRaw, value: chipNormalized, message: 'Chip maker not recognized' });
+    } else if (!inferred) {
+      const version = parseCorsairVersion(module);
+      if (version?.chip && !isVagueChip(die.name) && version.chip !== die.name) {
+        note({
+          kind: 'mismatch',
+          field: 'chip',
+          raw: chipRaw,
+          value: version.chip,
+          message: `Corsair ver ${version.code} indicates ${version.chip}`,
+        });
+      }
+    }
+
+    const typeRaw = getValue(columnMap.type);
+    if (!typeRaw) {
+      note({ kind: 'defaulted', field: 'type', value: 'DDR5', message: 'Memory type missing, assumed DDR5' });
+    }
+    const supportedSpeedRaw = getValue(columnMap.supportedSpeed);
+    if (!supportedSpeedRaw && ramSpeedRaw) {
+      note({ kind: 'defaulted', field: 'supportedSpeed', value: ramSpeedRaw, message: 'Supported speed missing, copied RAM speed' });
+    }
+
+    // Timings: dedicated columns first, then the note, then the part number
+    const noteRaw = getValue(columnMap.note);
+    const timingsRaw = getValue(columnMap.timings);
+    const timings = parseTimings(timingsRaw) ?? parseTimings(noteRaw);
+    if (timingsRaw && !parseTimings(timingsRaw)) {
+      note({ kind: 'unparseable', field: 'timings', raw: timingsRaw, message: 'Timings are not in CL-tRCD-tRP(-tRAS) form' });
+    }
+    const casLatencyRaw = getValue(columnMap.casLatency);
+    const casLatency = parseCasLatency(casLatencyRaw) ?? timings?.casLatency ?? parseCasLatency(noteRaw, true) ?? decoded?.casLatency;
+    if (casLatencyRaw && parseCasLatency(casLatencyRaw) === undefined) {
+      note({ kind: 'unparseable', field: 'casLatency', raw: casLatencyRaw, message: 'CAS latency is not a number' });
+    }
+    const voltageRaw = getValue(columnMap.voltage);
+    const voltage = parseVoltage(voltageRaw) ?? parseVoltage(noteRaw, true);
+    if (voltageRaw && parseVoltage(voltageRaw) === undefined) {
+      note({ kind: 'unparseable', field: 'voltage', raw: voltageRaw, message: 'Voltage is not a number' });
+    }
 
     // Build the base RAM module object
     const ramModule: any = {
-      type: getValue(columnMap.type) || 'DDR5',
+      type: typeRaw || 'DDR5',
       vendor: vendor,
-      ramSpeed: getValue(columnMap.ramSpeed),
-      supportedSpeed: getValue(columnMap.supportedSpeed) || getValue(columnMap.ramSpeed),
+      ramSpeed: ramSpeedRaw,
+      supportedSpeed: supportedSpeedRaw || ramSpeedRaw,
       size: sizeRaw,
       perStickSizeGB,
       totalSizeGB,
+      sticks,
       module: module,
       chip: chipNormalized || 'Unknown',
+      chipSource: inferred ? 'inferred' : chipRaw ? 'csv' : 'missing',
+      chipInference: inferred?.reason,
       ssDs: (getValue(columnMap.ssDs) as 'SS' | 'DS') || 'SS',
       rank,
       xmp: xmpRaw,
@@ -183,9 +536,29 @@ export function parseCSVData(data: any[], columnMap: ColumnMapping) {
       dimmSocketSupport: getValue(columnMap.dimmSocketSupport),
       oc: getValue(columnMap.oc),
       bios: getValue(columnMap.bios),
-      note: getValue(columnMap.note)
+      note: noteRaw,
+      casLatency,
+      trcd: timings?.trcd ?? decoded?.trcd,
+      trp: timings?.trp,
+      tras: timings?.tras,
+      voltage,
+      series: decoded?.series,
+      color: decoded?.color,
+      rgb: decoded?.rgb,
     };
 
+    // Ranks, IC density and width from capacity, SS/DS and die
+    const organization = deriveOrganization(ramModule);
+    ramModule.icDensity = organization.density;
+    ramModule.icWidth = organization.width;
+    ramModule.organizationIssue = organization.inconsistency;
+    if (rank === 'Unknown' && organization.ranks) {
+      ramModule.rank = organization.ranks === 1 ? 'Single' : 'Dual';
+    }
+    if (organization.inconsistency) {
+      note({ kind: 'inconsistent', field: 'ssDs', raw: ssdsRaw, message: organization.inconsistency });
+    }
+
     // Add unknown columns as additional properties
     columnMap.unknown.forEach(column => {
       const value = getValue(column);
@@ -252,59 +625,17 @@ function toBool(val: string): boolean | undefined {
   return undefined;
 }
 
-// Normalize die/chip value to merge duplicates and unify casing
-function normalizeDieName(input: string): string {
-  if (!input) return '';
+// Normalize die/chip value to merge duplicates and unify casing, e.g. "sk hynix a die" -> "Hynix A-die".
+// A chip that names only the maker normalizes to the maker. `recognized` is false when no chip
+// maker was found and the raw text was only title-cased.
+function normalizeDieName(input: string): { name: string; recognized: boolean } {
+  if (!input) return { name: '', recognized: false };
   const raw = input.trim();
-  const s = raw.toLowerCase();
-
-  // Manufacturer detection
-  let maker: string | null = null;
-  if (s.includes('hynix')) maker = 'Hynix';
-  else if (s.includes('sk hynix')) maker = 'Hynix';
-  else if (s.includes('samsung')) maker = 'Samsung';
-  else if (s.includes('micron')) maker = 'Micron';
-  else if (s.includes('spectek') || s.includes('spectek')) maker = 'SpecTek';
-  else if (s.includes('spectek') || s.includes('spectek')) maker = 'SpecTek';
-  else if (/^hynix$|^samsung$|^micron$|^sk\s*hynix$/.test(s)) {
-    // will be handled below
-  }
-
-  // Letter-grade dies like A/B/C/D/M/V/G/P
-  const letterMatch = s.match(/[-]?\b([abcmdvgp])\b(?:-?die)?/);
-  // Forms like "A-die", "B-die", "M-die"
-  const letterDieMatch = s.match(/\b([abcmdvgp])-?die\b/);
-  const letter = (letterDieMatch || letterMatch)?.[1]?.toUpperCase();
-
-  // SpecTek Y-codes (e.g., Y32A, Y4CA)
-  const yCodeMatch = s.match(/\b(y\d{2}[a-z])\b/i);
-  const yCode = yCodeMatch ? yCodeMatch[1].toUpperCase() : undefined;
-
-  // If only manufacturer present
-  if (!letter && !yCode) {
-    if (maker) return `${maker} (unknown)`;
-    // Attempt to title-case fallback
-    return titleCase(raw);
-  }
-
-  // Compose normalized name
-  let type: string | undefined;
-  if (yCode) type = yCode; // SpecTek codes stay as is
-  else if (letter) type = `${letter}-die`;
-
-  // Derive maker from common prefixes if missing
-  if (!maker) {
-    if (s.startsWith('samsung')) maker = 'Samsung';
-    else if (s.startsWith('micron')) maker = 'Micron';
-    else if (s.startsWith('sk') || s.includes('hynix')) maker = 'Hynix';
-    else if (s.includes('spectek')) maker = 'SpecTek';
-  }
-
-  return [maker ?? titleCase(raw.split(/\s|-/)[0]), type ?? titleCase(raw.replace(/^[^\s]+\s*/, ''))]
-    .filter(Boolean)
-    .join(' ')
-    .replace(/\s+/g, ' ')
-    .trim();
+  const { manufacturer, revision } = identifyDie(raw);
+  if (!manufacturer) return { name: titleCase(raw), recognized: false };
+  if (!revision) return { name: manufacturer, recognized: true };
+  // Letter grades read "A-die"; SpecTek Y-codes (e.g. Y4CA) stay as is
+  return { name: `${manufacturer} ${revision.length === 1 ? `${revision}-die` : revision}`, recognized: true };
 }
 
 function titleCase(str: string): string {
@@ -0,0 +1,99 @@
+import { parseCorsairVersion } from '@/lib/corsair-version';
+import { DieLookupOptions, identifyDie } from '@/lib/die-knowledge-base';
+import { RAMModule } from '@/types/ram';
+
+// Die inference for QVL rows whose Chip column is blank or names only the maker.
+// Module part numbers from the DRAM makers and Kingston's server/ValueRAM line encode the die,
+// Kingston FURY speed bins imply it; for other kits the stick size and rated speed narrow it down.
+
+export interface DieInference {
+  // Normalized chip name, e.g. "Hynix M-die"
+  chip: string;
+  // Why, for the import report and the Die Type tooltip
+  reason: string;
+}
+
+export interface DieInferenceHints {
+  // Normalized chip from the QVL ("Unknown" or a bare maker such as "Hynix")
+  chip?: string;
+  generation?: string;
+  speed?: number;
+  perStickSizeGB?: number;
+}
+
+const kingstonMakers: Record<string, string> = { H: 'Hynix', M: 'Micron', S: 'Samsung' };
+
+// Kingston FURY DDR5 bins as listed on board QVLs: 4800 MT/s kits are Micron A-die, and kits
+// from 6400 MT/s or CL32 and tighter are SK hynix (A-die, M-die for 24Gb sticks). The looser
+// 5200-6000 bins ship with several dies and are left to the generic rules.
+function kingstonFuryDie(speed: number, cl: number, perStickSizeGB: number): string | null {
+  if (speed === 4800) return 'Micron A-die';
+  if (speed < 6400 && cl > 32) return null;
+  if (perStickSizeGB % 24 === 0) return 'Hynix M-die';
+  return perStickSizeGB <= 32 ? 'Hynix A-die' : null;
+}
+
+// Lookup options for a module's die: generation, stick size and any density its part number states
+export function dieLookupOptions(module: RAMModule): DieLookupOptions {
+  return {
+    generation: module.type,
+    perStickSizeGB: module.perStickSizeGB,
+    density: parseCorsairVersion(module.module)?.density,
+  };
+}
+
+// Rules reading the die straight from a part number
+const partNumberRules: { pattern: RegExp; infer: (m: RegExpMatchArray) => string | null; reason: string }[] = [
+  // HMCG88MEBUA081N: the letter after the organization code is the die revision
+  { pattern: /^HMC[A-Z]\d{2}([A-Z])[A-Z]/, infer: m => `Hynix ${m[1]}-die`, reason: 'SK hynix module part number' },
+  // M323R4GA3BB0-CQKOL: revision letter before the "B0"/"C0" PCB code
+  { pattern: /^M3\d{2}R\w{4}([A-Z])[A-Z]\d/, infer: m => `Samsung ${m[1]}-die`, reason: 'Samsung module part number' },
+  // KSM48E40BD8KM-32HM: maker and die letter after the capacity
+  {
+    pattern: /^K(?:SM|VR)\w+-\d+([HMS])([A-Z])\b/,
+    infer: m => (kingstonMakers[m[1]] ? `${kingstonMakers[m[1]]} ${m[2]}-die` : null),
+    reason: 'Kingston die suffix',
+  },
+  // KF564C32RSAK2-32: FURY DDR5 at 6400 MT/s CL32, kit of two making 32GB
+  {
+    pattern: /^KF5(\d{2})C(\d{2})[A-Z]*?(?:K(\d))?-(\d+)/,
+    infer: m => kingstonFuryDie(Number(m[1]) * 100, Number(m[2]), Number(m[4]) / Number(m[3] ?? 1)),
+    reason: 'Kingston FURY speed bin',
+  },
+];
+
+// Die is already named when the chip text carries a revision
+export function isVagueChip(chip: string): boolean {
+  return !chip || chip === 'Unknown' || !identifyDie(chip).revision;
+}
+
+/**
+ * Infer the likely die of a module from its part number, stick size and speed.
+ * A maker named in the QVL is kept: inferences for another maker are dropped.
+ */
+export function inferDie(module: string, hints: DieInferenceHints = {}): DieInference | null {
+  const sku = module.trim().toUpperCase().split(/\s+/)[0];
+  const statedMaker = hints.chip ? identifyDie(hints.chip).manufacturer : null;
+  const agrees = (chip: string) => !statedMaker || identifyDie(chip).manufacturer === statedMaker;
+
+  const version = parseCorsairVersion(module);
+  if (version?.chip && agrees(version.chip)) return { chip: version.chip, reason: `Corsair ver ${version.code}` };
+
+  for (const rule of partNumberRules) {
+    const m = sku.match(rule.pattern);
+    const chip = m && rule.infer(m);
+    if (chip && agrees(chip)) return { chip, reason: rule.reason };
+  }
+
+  if (hints.generation && !/ddr5/i.test(hints.generation)) return null;
+  // 24Gb DDR5 ICs (24GB and 48GB sticks) from SK hynix are all M-die
+  if (statedMaker === 'Hynix' && hints.perStickSizeGB && hints.perStickSizeGB % 24 === 0) {
+    return { chip: 'Hynix M-die', reason: `${hints.perStickSizeGB}GB sticks use 24Gb Hynix M-die` };
+  }
+  // Retail kits rated 7200 MT/s and up are binned from SK hynix A-die (16Gb) or M-die (24Gb)
+  if ((!statedMaker || statedMaker === 'Hynix') && hints.speed && hints.speed >= 7200 && hints.perStickSizeGB) {
+    if (hints.perStickSizeGB % 24 === 0) return { chip: 'Hynix M-die', reason: `${hints.speed} MT/s ${hints.perStickSizeGB}GB kit` };
+    if (hints.perStickSizeGB <= 16) return { chip: 'Hynix A-die', reason: `${hints.speed} MT/s ${hints.perStickSizeGB}GB kit` };
+  }
+  return null;
+}
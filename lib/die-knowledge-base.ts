@@ -1,90 +1,197 @@
-import { DieInfo } from '@/types/ram';
-
-export const dieKnowledgeBase: Record<string, DieInfo> = {
-  // Fallback when die cannot be identified
-  'Unknown': {
-    dieType: 'Unknown',
-    manufacturer: 'Unknown',
-    rank: 'Single',
-    density: 'Unknown',
-    description: 'Die type could not be determined from available data. Treat specs and OC potential as variable.',
-    performance: 'Unknown',
-    overclocking: 'Unknown'
-  },
-  // DDR5-only dies (mainstream ICs)
-  'Hynix A-Die (DDR5)': {
-    dieType: 'Hynix A-Die (DDR5)',
-    manufacturer: 'Hynix',
-    rank: 'Single',
-    density: '16Gb',
-    description: 'First-wave DDR5 IC highly regarded for tight timings and strong OC headroom, popular for DDR5-6000–7200 kits.',
-    performance: 'Premium',
-    overclocking: 'Excellent'
-  },
-  'Hynix M-Die (DDR5)': {
-    dieType: 'Hynix M-Die (DDR5)',
-    manufacturer: 'Hynix',
-    rank: 'Single',
-    density: '24Gb',
-    description: 'Newer high-density DDR5 IC enabling 24GB/48GB modules; very capable with high frequencies and good timings.',
-    performance: 'High',
-    overclocking: 'Good'
-  },
-  'Samsung D-Die (DDR5)': {
-    dieType: 'Samsung D-Die (DDR5)',
-    manufacturer: 'Samsung',
-    rank: 'Single',
-    density: '16Gb',
-    description: 'Early Samsung DDR5 IC; decent frequencies with moderate timings; responds to tuning but trails top Hynix bins.',
-    performance: 'High',
-    overclocking: 'Good'
-  },
-  'Samsung V-Die (DDR5)': {
-    dieType: 'Samsung V-Die (DDR5)',
-    manufacturer: 'Samsung',
-    rank: 'Single',
-    density: '16Gb',
-    description: 'Later-gen Samsung DDR5 IC with improved stability and frequency scaling compared to D-Die.',
-    performance: 'High',
-    overclocking: 'Good'
-  },
-  'Micron A-Die (DDR5)': {
-    dieType: 'Micron A-Die (DDR5)',
-    manufacturer: 'Micron',
-    rank: 'Single',
-    density: '16Gb',
-    description: 'Widely used DDR5 IC; strong compatibility and solid XMP/EXPO behavior; moderate OC headroom.',
-    performance: 'High',
-    overclocking: 'Fair'
-  },
-  'Micron Rev.B (DDR5)': {
-    dieType: 'Micron Rev.B (DDR5)',
-    manufacturer: 'Micron',
-    rank: 'Single',
-    density: '16Gb',
-    description: 'Refined Micron DDR5 revision with incremental gains in stability and frequency over early lots.',
-    performance: 'High',
-    overclocking: 'Good'
+import knowledgeBaseData from '@/lib/data/die-knowledge-base.json';
+import { DieInfo, MemoryGeneration } from '@/types/ram';
+
+// Die knowledge base, loaded from lib/data/die-knowledge-base.json
+export interface DieKnowledgeBaseData {
+  version: number;
+  // Canonical manufacturer name -> lower-case spellings seen in QVLs
+  manufacturers: Record<string, string[]>;
+  // Per-manufacturer revision codes (e.g. Hynix "CJR" -> "C")
+  revisionCodes: Record<string, Record<string, string>>;
+  // Shown for modules whose die is not stated at all
+  unknown: DieInfo;
+  dies: DieInfo[];
+}
+
+// What a chip description says about the die, before looking it up
+export interface DieIdentity {
+  manufacturer: string | null;
+  revision: string | null;
+  generation: MemoryGeneration | null;
+  density: string | null;
+}
+
+// confirmed: the chip text pins down one entry; probable: part of the match was inferred
+export type DieMatchConfidence = 'confirmed' | 'probable' | 'none';
+
+export interface DieMatch {
+  die: DieInfo | null;
+  identity: DieIdentity;
+  confidence: DieMatchConfidence;
+  // What was inferred rather than stated, for tooltips
+  assumptions: string[];
+}
+
+export interface DieLookupOptions {
+  // Memory type of the module (e.g. "DDR5"), used when the chip text does not say
+  generation?: string;
+  // Picks between densities of the same revision (24GB sticks use 24Gb ICs)
+  perStickSizeGB?: number;
+  // IC density known from elsewhere, e.g. a Corsair version code
+  density?: string;
+}
+
+export function parseDieKnowledgeBase(data: unknown): DieKnowledgeBaseData {
+  const kb = data as DieKnowledgeBaseData;
+  if (!kb || typeof kb !== 'object' || !Array.isArray(kb.dies) || !kb.manufacturers || !kb.unknown) {
+    throw new Error('Not a die knowledge base file');
   }
-};
+  kb.dies.forEach((die, i) => {
+    if (!die.dieType || !die.manufacturer || !die.performance || !die.overclocking) {
+      throw new Error(`Die entry ${i + 1} is missing dieType, manufacturer, performance or overclocking`);
+    }
+  });
+  return { ...kb, revisionCodes: kb.revisionCodes ?? {} };
+}
 
-export function getDieInfo(chip: string): DieInfo | null {
-  // Try exact match first
-  if (dieKnowledgeBase[chip]) {
-    return dieKnowledgeBase[chip];
+const knowledgeBase = parseDieKnowledgeBase(knowledgeBaseData);
+
+function indexByName(kb: DieKnowledgeBaseData): Record<string, DieInfo> {
+  return Object.fromEntries([kb.unknown, ...kb.dies].map(die => [die.dieType, die]));
+}
+
+export const dieKnowledgeBase: Record<string, DieInfo> = indexByName(knowledgeBase);
+
+function toGeneration(value: string | undefined): MemoryGeneration | null {
+  const m = value?.match(/ddr\s*([45])/i);
+  return m ? (`DDR${m[1]}` as MemoryGeneration) : null;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Read manufacturer, revision, generation and density out of a chip description such as
+// "Hynix A-die", "Micron-B", "SpecTek Y4CA" or "Hynix M-die 24Gb (DDR5)". An IC part number
+// such as "H5CG48AGBDX018N" identifies all four.
+export function identifyDie(chip: string): DieIdentity {
+  const ic = chip.toUpperCase().split(/[^A-Z0-9]+/).map(findDieByIcPartNumber).find(Boolean);
+  if (ic) return { manufacturer: ic.manufacturer, revision: ic.revision, generation: ic.generation, density: ic.density };
+
+  const s = chip.toLowerCase();
+  const generation = toGeneration(s);
+  const densityMatch = s.match(/\b(\d+)\s*g(?:b|bit)\b/);
+  const density = densityMatch ? `${densityMatch[1]}Gb` : null;
+
+  let manufacturer: string | null = null;
+  let rest = s;
+  for (const [name, aliases] of Object.entries(knowledgeBase.manufacturers)) {
+    const alias = aliases.find(a => new RegExp(`(^|[^a-z])${escapeRegExp(a)}([^a-z]|$)`).test(s));
+    if (alias) {
+      manufacturer = name;
+      rest = s.replace(alias, ' ');
+      break;
+    }
   }
 
-  // Try partial matches
-  const normalizedChip = chip.toLowerCase();
-  for (const [key, value] of Object.entries(dieKnowledgeBase)) {
-    if (key.toLowerCase().includes(normalizedChip) || normalizedChip.includes(key.toLowerCase())) {
-      return value;
+  rest = rest.replace(/\(?ddr\s*[45]\)?/g, ' ').replace(/\b\d+\s*g(?:b|bit)\b/g, ' ');
+
+  let revision: string | null = null;
+  const codes = manufacturer ? knowledgeBase.revisionCodes[manufacturer] ?? {} : {};
+  for (const [code, rev] of Object.entries(codes)) {
+    if (new RegExp(`\\b${code.toLowerCase()}\\b`).test(rest)) {
+      revision = rev;
+      break;
     }
   }
+  if (!revision) {
+    const letter = rest.match(/(?:^|[\s\-(.])(?:rev\.?\s*)?([a-z])(?:[\s-]?die)?(?=$|[\s\-).,])/);
+    revision = letter ? letter[1].toUpperCase() : null;
+  }
+
+  return { manufacturer, revision, generation, density };
+}
 
+function densityForStick(perStickSizeGB: number | undefined): string | null {
+  if (!perStickSizeGB) return null;
+  if (perStickSizeGB % 24 === 0) return '24Gb';
+  if (perStickSizeGB >= 64) return '32Gb';
+  // Single-rank 8GB/16GB sticks only come with 16Gb ICs; 32GB can be either
+  if (perStickSizeGB <= 16) return '16Gb';
   return null;
 }
 
+/**
+ * Match a chip description against the knowledge base by manufacturer, revision, generation
+ * and density. A chip that names only the manufacturer gets that manufacturer's generic entry;
+ * an unlisted revision matches nothing.
+ */
+export function matchDie(chip: string, options: DieLookupOptions = {}): DieMatch {
+  const identity = identifyDie(chip);
+  const named = dieKnowledgeBase[chip];
+  if (named) {
+    return { die: named, identity, confidence: named === knowledgeBase.unknown ? 'none' : 'confirmed', assumptions: [] };
+  }
+  if (!chip.trim() || /^unknown$/i.test(chip.trim())) {
+    return { die: knowledgeBase.unknown, identity, confidence: 'none', assumptions: [] };
+  }
+  if (!identity.manufacturer) {
+    return { die: null, identity, confidence: 'none', assumptions: [] };
+  }
+
+  const assumptions: string[] = [];
+  let generation = identity.generation ?? toGeneration(options.generation);
+  if (!generation) {
+    generation = 'DDR5';
+    assumptions.push('generation assumed to be DDR5');
+  }
+
+  const candidates = knowledgeBase.dies.filter(die =>
+    die.manufacturer === identity.manufacturer &&
+    die.generation === generation &&
+    die.revision === identity.revision
+  );
+  if (candidates.length === 0) {
+    return { die: null, identity, confidence: 'none', assumptions };
+  }
+
+  let die = candidates[0];
+  if (candidates.length > 1) {
+    // A stated density or one implied by the stick size decides; otherwise 16Gb is the likeliest
+    const density = identity.density ?? options.density ?? densityForStick(options.perStickSizeGB);
+    const exact = candidates.find(d => d.density === density);
+    if (exact) {
+      die = exact;
+    } else {
+      die = candidates.find(d => d.density === '16Gb') ?? candidates[0];
+      assumptions.push(`${die.density} density assumed`);
+    }
+  }
+  if (!identity.revision) {
+    assumptions.push('revision not stated');
+  }
+
+  return { die, identity, confidence: assumptions.length > 0 ? 'probable' : 'confirmed', assumptions };
+}
+
+// Densities listed for a die's revision, e.g. ["16Gb", "24Gb"] for DDR5 Hynix A-die
+export function densityVariants(die: DieInfo): string[] {
+  return knowledgeBase.dies
+    .filter(d => d.manufacturer === die.manufacturer && d.generation === die.generation && d.revision === die.revision)
+    .map(d => d.density);
+}
+
+export function getDieInfo(chip: string, options: DieLookupOptions = {}): DieInfo | null {
+  return matchDie(chip, options).die;
+}
+
+// Die for an IC part number as printed on the package, e.g. "H5CG48AGBDX018N"
+export function findDieByIcPartNumber(partNumber: string): DieInfo | null {
+  const pn = partNumber.trim().toUpperCase();
+  if (!pn) return null;
+  return knowledgeBase.dies.find(die => die.icPartNumbers?.some(prefix => pn.startsWith(prefix))) ?? null;
+}
+
 export function getRankInfo(ssDs: 'SS' | 'DS'): { rank: string; description: string } {
   if (ssDs === 'SS') {
     return {
@@ -0,0 +1,73 @@
+import { ImcProfile, memoryGeneration, twoDpcSpeeds } from '@/lib/imc-profiles';
+import { RAMModule } from '@/types/ram';
+
+// DIMM population advice from the QVL "DIMM Socket Support" column ("2/4", "1,2,4", "2"):
+// which numbers of installed DIMMs a module was validated with, and what two DIMMs per
+// channel (2DPC) costs in speed on a dual-channel desktop board.
+
+export interface PopulationTarget {
+  dimms: number;
+  // Total memory across all DIMMs; undefined for any
+  capacityGB?: number;
+  rank?: 'Single' | 'Dual';
+  // Workspace boards being planned for; undefined for every board that lists the module
+  boardIds?: string[];
+}
+
+export interface PopulationAdvice {
+  validated: boolean;
+  matches: boolean;
+  warnings: string[];
+}
+
+// Desktop boards have two channels; more than two DIMMs means two per channel
+const CHANNELS = 2;
+
+// "2/4" -> [2, 4]; anything that is not a DIMM count (1-8) is ignored
+export function parseDimmSocketSupport(value: string): number[] {
+  const counts = (value.match(/\d+/g) ?? []).map(Number).filter(n => n >= 1 && n <= 8);
+  return Array.from(new Set(counts)).sort((a, b) => a - b);
+}
+
+/**
+ * Populations validated on every one of the given boards, or on every board listing the module
+ * when none are given. Boards whose QVL leaves the column blank do not narrow the result; a
+ * given board that does not list the module validates nothing.
+ */
+export function validatedPopulations(module: RAMModule, boardIds?: string[]): number[] {
+  if (!module.boardSupport) return parseDimmSocketSupport(module.dimmSocketSupport);
+  const support = module.boardSupport;
+  const ids = boardIds ?? Object.keys(support);
+  if (ids.length === 0 || ids.some(id => !support[id])) return [];
+
+  const stated = ids.map(id => parseDimmSocketSupport(support[id].dimmSocketSupport)).filter(counts => counts.length > 0);
+  if (stated.length === 0) return [];
+  return stated.reduce((common, counts) => common.filter(n => counts.includes(n)));
+}
+
+export function isTwoDimmsPerChannel(dimms: number): boolean {
+  return dimms > CHANNELS;
+}
+
+// 2DPC speed warnings use the picked CPU platform's ceilings, or the highest of any platform
+export function adviseModule(module: RAMModule, target: PopulationTarget, profile?: ImcProfile): PopulationAdvice {
+  const populations = validatedPopulations(module, target.boardIds);
+  const validated = populations.includes(target.dimms);
+  const capacityOk = !target.capacityGB || (module.perStickSizeGB ?? 0) * target.dimms === target.capacityGB;
+  const rankOk = !target.rank || module.rank === target.rank;
+
+  const warnings: string[] = [];
+  const speed = Number(String(module.ramSpeed ?? '').replace(/[^0-9.]/g, ''));
+  const rank = module.rank === 'Dual' ? 'Dual' : 'Single';
+  const ceiling = twoDpcSpeeds(memoryGeneration(module), profile)?.[rank];
+  if (isTwoDimmsPerChannel(target.dimms) && ceiling && speed > ceiling) {
+    const platform = profile ? ` on ${profile.name}` : '';
+    warnings.push(`Rated ${speed} MT/s; ${rank.toLowerCase()}-rank at 2DPC${platform} typically runs ${ceiling} MT/s or less`);
+  }
+
+  return { validated, matches: validated && capacityOk && rankOk, warnings };
+}
+
+export function filterByPopulation<T extends RAMModule>(modules: T[], target: PopulationTarget): T[] {
+  return modules.filter(module => adviseModule(module, target).matches);
+}
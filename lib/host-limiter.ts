@@ -0,0 +1,29 @@
+// Spaces out request starts per host. Each caller reserves the next free slot for its host
+// before sleeping, so concurrent callers never share one.
+
+export function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class HostLimiter {
+  private readonly nextStartByHost = new Map<string, number>();
+
+  constructor(
+    private readonly intervalMs: number,
+    private readonly now: () => number = Date.now,
+    private readonly sleep: (ms: number) => Promise<void> = defaultSleep
+  ) {}
+
+  // Resolves when a request to the host may start
+  async wait(host: string): Promise<void> {
+    if (this.intervalMs <= 0) return;
+    const now = this.now();
+    const start = Math.max(now, this.nextStartByHost.get(host) ?? now);
+    this.nextStartByHost.set(host, start + this.intervalMs);
+    // Hosts whose slots are all in the past need no entry
+    for (const [key, next] of Array.from(this.nextStartByHost)) {
+      if (next < now) this.nextStartByHost.delete(key);
+    }
+    if (start > now) await this.sleep(start - now);
+  }
+}
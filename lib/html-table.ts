@@ -0,0 +1,76 @@
+// Lightweight HTML table extraction (regex based, like the Prisjakt scraper) so it runs
+// both in the browser for clipboard content and on the server for fetched pages.
+
+export function extractHtmlTables(html: string): string[][][] {
+  const tables: string[][][] = [];
+  const tableRegex = /<table\b[^>]*>([\s\S]*?)<\/table>/gi;
+  let tableMatch: RegExpExecArray | null = tableRegex.exec(html);
+
+  while (tableMatch !== null) {
+    const rows = extractRows(tableMatch[1]);
+    if (rows.length > 0) tables.push(rows);
+    tableMatch = tableRegex.exec(html);
+  }
+
+  return tables;
+}
+
+// The QVL is almost always the biggest table on a vendor page
+export function largestTable(tables: string[][][]): string[][] | null {
+  let best: string[][] | null = null;
+  for (const table of tables) {
+    if (!best || cellCount(table) > cellCount(best)) best = table;
+  }
+  return best;
+}
+
+function cellCount(table: string[][]): number {
+  return table.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+}
+
+function extractRows(tableHtml: string): string[][] {
+  const rows: string[][] = [];
+  const rowRegex = /<tr\b[^>]*>([\s\S]*?)<\/tr>/gi;
+  let rowMatch: RegExpExecArray | null = rowRegex.exec(tableHtml);
+
+  while (rowMatch !== null) {
+    const cells: string[] = [];
+    const cellRegex = /<t([hd])\b([^>]*)>([\s\S]*?)<\/t\1>/gi;
+    let cellMatch: RegExpExecArray | null = cellRegex.exec(rowMatch[1]);
+
+    while (cellMatch !== null) {
+      cells.push(cellText(cellMatch[3]));
+      // Keep positions aligned when a cell spans several columns
+      const colspan = Number(cellMatch[2].match(/colspan\s*=\s*["']?(\d+)/i)?.[1] ?? 1);
+      for (let i = 1; i < colspan; i++) cells.push('');
+      cellMatch = cellRegex.exec(rowMatch[1]);
+    }
+
+    if (cells.some(Boolean)) rows.push(cells);
+    rowMatch = rowRegex.exec(tableHtml);
+  }
+
+  return rows;
+}
+
+function cellText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<[^>]*>/g, '')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function decodeEntities(s: string): string {
+  return s
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,80 @@
+import { RAMModule } from '@/types/ram';
+
+// CPU memory-controller (IMC) profiles: speeds a platform typically holds by rank and DIMMs
+// per channel. These are conservative community figures for stable daily use on a decent
+// board, not guarantees; kits rated above them usually need to be run slower.
+
+export type SpeedsByRank = Record<'Single' | 'Dual', number>;
+
+export interface ImcProfile {
+  id: string;
+  name: string;
+  // Typical stable speeds with one and two DIMMs per channel, per memory generation
+  speeds: Partial<Record<'DDR4' | 'DDR5', { oneDpc: SpeedsByRank; twoDpc: SpeedsByRank }>>;
+}
+
+export const imcProfiles: ImcProfile[] = [
+  {
+    id: 'am5-zen4',
+    name: 'AM5 Ryzen 7000 (Zen 4)',
+    speeds: {
+      DDR5: { oneDpc: { Single: 6400, Dual: 6000 }, twoDpc: { Single: 5200, Dual: 4800 } },
+    },
+  },
+  {
+    id: 'am5-zen5',
+    name: 'AM5 Ryzen 9000 (Zen 5)',
+    speeds: {
+      DDR5: { oneDpc: { Single: 6600, Dual: 6000 }, twoDpc: { Single: 5600, Dual: 5200 } },
+    },
+  },
+  {
+    id: 'lga1700',
+    name: 'LGA1700 Core 12th-14th gen',
+    speeds: {
+      DDR5: { oneDpc: { Single: 7200, Dual: 6400 }, twoDpc: { Single: 5600, Dual: 5200 } },
+      DDR4: { oneDpc: { Single: 3800, Dual: 3600 }, twoDpc: { Single: 3600, Dual: 3200 } },
+    },
+  },
+  {
+    id: 'lga1851',
+    name: 'LGA1851 Core Ultra 200S',
+    speeds: {
+      DDR5: { oneDpc: { Single: 8000, Dual: 6800 }, twoDpc: { Single: 6000, Dual: 5600 } },
+    },
+  },
+];
+
+export function findImcProfile(id: string | null | undefined): ImcProfile | undefined {
+  return imcProfiles.find(profile => profile.id === id);
+}
+
+export function memoryGeneration(module: RAMModule): 'DDR4' | 'DDR5' {
+  return /ddr4/i.test(module.type) ? 'DDR4' : 'DDR5';
+}
+
+/**
+ * Speeds held with two DIMMs per channel: the platform's, or with no platform picked the
+ * highest any listed platform holds. Undefined when no platform takes the generation.
+ */
+export function twoDpcSpeeds(generation: 'DDR4' | 'DDR5', profile?: ImcProfile): SpeedsByRank | undefined {
+  const tables = (profile ? [profile] : imcProfiles).flatMap(p => {
+    const speeds = p.speeds[generation];
+    return speeds ? [speeds.twoDpc] : [];
+  });
+  if (tables.length === 0) return undefined;
+  return { Single: Math.max(...tables.map(t => t.Single)), Dual: Math.max(...tables.map(t => t.Dual)) };
+}
+
+/**
+ * Speed a module can be expected to run at on a platform: its rated speed, capped at the
+ * platform's typical ceiling for its rank and the number of installed DIMMs (two channels).
+ * Undefined when the platform does not take the module's memory generation.
+ */
+export function expectedSpeed(module: RAMModule, profile: ImcProfile, dimms = 2): number | undefined {
+  const speeds = profile.speeds[memoryGeneration(module)];
+  const rated = Number(String(module.ramSpeed ?? '').replace(/[^0-9.]/g, ''));
+  if (!speeds || !rated) return undefined;
+  const ceiling = (dimms > 2 ? speeds.twoDpc : speeds.oneDpc)[module.rank === 'Dual' ? 'Dual' : 'Single'];
+  return Math.min(rated, ceiling);
+}
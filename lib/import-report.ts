@@ -0,0 +1,63 @@
+import Papa from 'papaparse';
+
+// Line-level diagnostics collected while turning raw rows into RAM modules
+export type ImportIssueKind = 'skipped' | 'defaulted' | 'unparseable' | 'unmatched_chip' | 'mismatch' | 'inconsistent';
+
+export interface ImportIssue {
+  kind: ImportIssueKind;
+  // 1-based line in the source file (0 when the source has no line numbers)
+  line: number;
+  module?: string;
+  field?: string;
+  raw?: string;
+  value?: string;
+  message: string;
+}
+
+export interface ImportReport {
+  source?: string;
+  totalRows: number;
+  importedRows: number;
+  issues: ImportIssue[];
+}
+
+export const importIssueLabels: Record<ImportIssueKind, string> = {
+  skipped: 'Skipped row',
+  defaulted: 'Defaulted field',
+  unparseable: 'Unparseable value',
+  unmatched_chip: 'Unrecognized chip',
+  mismatch: 'Part number mismatch',
+  inconsistent: 'Inconsistent organization',
+};
+
+export function createImportReport(source?: string): ImportReport {
+  return { source, totalRows: 0, importedRows: 0, issues: [] };
+}
+
+export function countIssues(report: ImportReport): Record<ImportIssueKind, number> {
+  const counts: Record<ImportIssueKind, number> = {
+    skipped: 0,
+    defaulted: 0,
+    unparseable: 0,
+    unmatched_chip: 0,
+    mismatch: 0,
+    inconsistent: 0,
+  };
+  for (const issue of report.issues) counts[issue.kind]++;
+  return counts;
+}
+
+export function importReportToCSV(report: ImportReport): string {
+  return Papa.unparse({
+    fields: ['Line', 'Kind', 'Module', 'Field', 'Raw Value', 'Used Value', 'Message'],
+    data: report.issues.map(issue => [
+      issue.line || '',
+      importIssueLabels[issue.kind],
+      issue.module ?? '',
+      issue.field ?? '',
+      issue.raw ?? '',
+      issue.value ?? '',
+      issue.message,
+    ]),
+  });
+}
@@ -0,0 +1,200 @@
+import { HostLimiter } from '@/lib/host-limiter';
+
+// Bulk job runner for price searches: a bounded number of jobs in flight, starts to the same
+// host spaced out, and pause/resume/cancel. Paused runners let in-flight jobs finish; a
+// cancelled runner aborts them and leaves the rest queued. Jobs can also run in batches that
+// report each item's result as it arrives.
+
+export type JobStatus = 'queued' | 'searching' | 'found' | 'not_found' | 'error';
+export type RunnerState = 'running' | 'paused' | 'cancelled' | 'done';
+
+export interface JobProgress {
+  state: RunnerState;
+  total: number;
+  // Jobs that ended as found, not found or error
+  completed: number;
+  counts: Record<JobStatus, number>;
+  // Estimated time left, once at least one job has completed
+  etaMs?: number;
+}
+
+export interface JobRunnerOptions<T, R> {
+  keyOf: (item: T) => string;
+  // One of run or runBatch does the work
+  run?: (item: T, signal: AbortSignal) => Promise<R>;
+  // Runs up to batchSize items; items never reported count as errors
+  runBatch?: (items: T[], signal: AbortSignal, report: (item: T, result: R | Error) => void) => Promise<void>;
+  batchSize?: number;
+  // Whether a finished job found anything; found by default
+  statusOf?: (result: R) => 'found' | 'not_found';
+  // Jobs in flight at once
+  concurrency?: number;
+  // Host a job (or batch, by its first item) talks to; starts to the same host are at least
+  // hostIntervalMs apart
+  hostOf?: (item: T) => string;
+  hostIntervalMs?: number;
+  onJobUpdate?: (key: string, status: JobStatus, result?: R, error?: unknown) => void;
+  onProgress?: (progress: JobProgress) => void;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_HOST_INTERVAL_MS = 500;
+
+export class JobRunner<T, R> {
+  private readonly queue: T[];
+  private readonly statuses = new Map<string, JobStatus>();
+  private readonly hosts: HostLimiter;
+  private readonly controller = new AbortController();
+  private state: RunnerState = 'running';
+  private resumeWaiters: (() => void)[] = [];
+  // Time spent running, excluding pauses, for the ETA
+  private activeMs = 0;
+  private activeSince: number;
+  private readonly now: () => number;
+
+  constructor(items: T[], private readonly options: JobRunnerOptions<T, R>) {
+    if (!options.run && !options.runBatch) throw new Error('JobRunner needs run or runBatch');
+    this.now = options.now ?? Date.now;
+    this.hosts = new HostLimiter(options.hostIntervalMs ?? DEFAULT_HOST_INTERVAL_MS, this.now, options.sleep);
+    this.activeSince = this.now();
+    // Each key runs once even if the item list repeats it
+    const seen = new Set<string>();
+    this.queue = items.filter(item => {
+      const key = options.keyOf(item);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      this.statuses.set(key, 'queued');
+      return true;
+    });
+  }
+
+  async start(): Promise<JobProgress> {
+    for (const key of Array.from(this.statuses.keys())) this.options.onJobUpdate?.(key, 'queued');
+    this.emitProgress();
+    const workers = Math.max(1, Math.min(this.options.concurrency ?? DEFAULT_CONCURRENCY, this.queue.length));
+    await Promise.all(Array.from({ length: workers }, () => this.work()));
+    if (this.state !== 'cancelled') this.setState('done');
+    return this.progress();
+  }
+
+  pause(): void {
+    if (this.state !== 'running') return;
+    this.activeMs += this.now() - this.activeSince;
+    this.setState('paused');
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.activeSince = this.now();
+    this.setState('running');
+    this.wakeWorkers();
+  }
+
+  cancel(): void {
+    if (this.state === 'cancelled' || this.state === 'done') return;
+    if (this.state === 'running') this.activeMs += this.now() - this.activeSince;
+    this.setState('cancelled');
+    this.controller.abort();
+    this.wakeWorkers();
+  }
+
+  progress(): JobProgress {
+    const counts: Record<JobStatus, number> = { queued: 0, searching: 0, found: 0, not_found: 0, error: 0 };
+    for (const status of Array.from(this.statuses.values())) counts[status]++;
+    const total = this.statuses.size;
+    const completed = counts.found + counts.not_found + counts.error;
+    const activeMs = this.activeMs + (this.state === 'running' ? this.now() - this.activeSince : 0);
+    const etaMs = completed > 0 && this.state !== 'done' ? Math.round((activeMs / completed) * (total - completed)) : undefined;
+    return { state: this.state, total, completed, counts, etaMs };
+  }
+
+  private async work(): Promise<void> {
+    const { run, runBatch, batchSize = 1 } = this.options;
+    while (this.queue.length > 0) {
+      while (this.isPaused()) await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+      if (this.state === 'cancelled') return;
+      const items = this.queue.splice(0, runBatch ? batchSize : 1);
+      if (items.length === 0) return;
+
+      await this.hosts.wait(this.options.hostOf?.(items[0]) ?? '');
+      if (this.controller.signal.aborted) {
+        this.queue.unshift(...items);
+        return;
+      }
+      // Paused while waiting for the host: start them after resume instead
+      if (this.isPaused()) {
+        this.queue.unshift(...items);
+        continue;
+      }
+      if (runBatch) await this.runBatch(items, runBatch);
+      else if (run) await this.runJob(items[0], run);
+    }
+  }
+
+  private async runJob(item: T, run: NonNullable<JobRunnerOptions<T, R>['run']>): Promise<void> {
+    const key = this.options.keyOf(item);
+    this.update(key, 'searching');
+    try {
+      const result = await run(item, this.controller.signal);
+      this.update(key, this.options.statusOf?.(result) ?? 'found', result);
+    } catch (error) {
+      // Jobs aborted by cancel go back to the queue rather than counting as failures
+      this.update(key, this.controller.signal.aborted ? 'queued' : 'error', undefined, error);
+    }
+  }
+
+  private async runBatch(items: T[], runBatch: NonNullable<JobRunnerOptions<T, R>['runBatch']>): Promise<void> {
+    const pending = new Map(items.map(item => [this.options.keyOf(item), item]));
+    for (const key of Array.from(pending.keys())) this.update(key, 'searching');
+    const report = (item: T, result: R | Error) => {
+      const key = this.options.keyOf(item);
+      if (!pending.delete(key)) return;
+      if (result instanceof Error) this.update(key, 'error', undefined, result);
+      else this.update(key, this.options.statusOf?.(result) ?? 'found', result);
+    };
+
+    let failure: unknown = new Error('No result returned');
+    try {
+      await runBatch(items, this.controller.signal, report);
+    } catch (error) {
+      failure = error;
+    }
+    const status = this.controller.signal.aborted ? 'queued' : 'error';
+    for (const key of Array.from(pending.keys())) this.update(key, status, undefined, failure);
+  }
+
+  private update(key: string, status: JobStatus, result?: R, error?: unknown): void {
+    this.statuses.set(key, status);
+    this.options.onJobUpdate?.(key, status, result, error);
+    this.emitProgress();
+  }
+
+  private setState(state: RunnerState): void {
+    this.state = state;
+    this.emitProgress();
+  }
+
+  // A method rather than a state check so awaits in between are not narrowed away
+  private isPaused(): boolean {
+    return this.state === 'paused';
+  }
+
+  private wakeWorkers(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    for (const wake of waiters) wake();
+  }
+
+  private emitProgress(): void {
+    this.options.onProgress?.(this.progress());
+  }
+}
+
+// "3 min 20 s", "45 s"
+export function formatEta(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} min ${seconds % 60} s` : `${seconds} s`;
+}
@@ -0,0 +1,114 @@
+import type { ColumnMapping } from '@/lib/csv-parser';
+
+// User-confirmed column mappings, remembered per header layout
+export interface MappingPreset {
+  fingerprint: string;
+  name: string;
+  columns: string[];
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+interface MappingPresetFile {
+  version: 1;
+  presets: MappingPreset[];
+}
+
+const STORAGE_KEY = 'hitta-ram:mapping-presets';
+
+// Stable hash of the header list (FNV-1a over normalized names, order-sensitive)
+export function headerFingerprint(columns: string[]): string {
+  const text = columns.map(c => c.trim().toLowerCase()).join('\u001f');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${columns.length}-${hash.toString(16).padStart(8, '0')}`;
+}
+
+export function findMappingPreset(columns: string[], presets: MappingPreset[]): MappingPreset | null {
+  const fingerprint = headerFingerprint(columns);
+  return presets.find(p => p.fingerprint === fingerprint) ?? null;
+}
+
+export function loadMappingPresets(): MappingPreset[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? parseMappingPresets(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeMappingPresets(presets: MappingPreset[]): void {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+// Save (or replace) the preset for this header layout and return the updated list
+export function saveMappingPreset(
+  presets: MappingPreset[],
+  columns: string[],
+  mapping: ColumnMapping,
+  name: string
+): MappingPreset[] {
+  const preset: MappingPreset = {
+    fingerprint: headerFingerprint(columns),
+    name: name.trim() || 'Untitled preset',
+    columns,
+    mapping,
+    savedAt: new Date().toISOString(),
+  };
+  const next = [...presets.filter(p => p.fingerprint !== preset.fingerprint), preset];
+  storeMappingPresets(next);
+  return next;
+}
+
+export function deleteMappingPreset(presets: MappingPreset[], fingerprint: string): MappingPreset[] {
+  const next = presets.filter(p => p.fingerprint !== fingerprint);
+  storeMappingPresets(next);
+  return next;
+}
+
+// Imported presets replace stored ones with the same fingerprint
+export function importMappingPresets(presets: MappingPreset[], json: string): MappingPreset[] {
+  const incoming = parseMappingPresets(json);
+  if (incoming.length === 0) {
+    throw new Error('No mapping presets found in file');
+  }
+  const fingerprints = new Set(incoming.map(p => p.fingerprint));
+  const next = [...presets.filter(p => !fingerprints.has(p.fingerprint)), ...incoming];
+  storeMappingPresets(next);
+  return next;
+}
+
+export function exportMappingPresets(presets: MappingPreset[]): string {
+  const file: MappingPresetFile = { version: 1, presets };
+  return JSON.stringify(file, null, 2);
+}
+
+// Accepts both the export file format and a bare preset array
+export function parseMappingPresets(json: string): MappingPreset[] {
+  const data = JSON.parse(json);
+  const list: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.presets) ? data.presets : [];
+  return list.filter(isMappingPreset).map(p => ({
+    ...p,
+    // Recompute so hand-edited files still match the headers they list
+    fingerprint: headerFingerprint(p.columns),
+  }));
+}
+
+function isMappingPreset(value: unknown): value is MappingPreset {
+  if (!value || typeof value !== 'object') return false;
+  const p = value as Partial<MappingPreset>;
+  return (
+    typeof p.name === 'string' &&
+    Array.isArray(p.columns) &&
+    p.columns.every(c => typeof c === 'string') &&
+    !!p.mapping &&
+    typeof p.mapping === 'object' &&
+    Array.isArray(p.mapping.unknown)
+  );
+}
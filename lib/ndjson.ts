@@ -0,0 +1,21 @@
+// Newline-delimited JSON, used to stream batch search results as they resolve
+
+export function ndjsonLine(value: unknown): string {
+  return `${JSON.stringify(value)}\n`;
+}
+
+// Parse each line of a streamed body as it arrives
+export async function readNdjson<T>(body: ReadableStream<Uint8Array>, onLine: (value: T) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) if (line.trim()) onLine(JSON.parse(line) as T);
+    if (done) break;
+  }
+  if (buffer.trim()) onLine(JSON.parse(buffer) as T);
+}
@@ -0,0 +1,76 @@
+import { WatchAlert } from '@/lib/watchlist';
+
+// Delivery channels for watchlist alerts. The worker cron uses the webhook and email relay
+// channels configured in its environment; the browser uses the Notification API.
+
+export interface NotificationChannel {
+  name: string;
+  send(alert: WatchAlert): Promise<void>;
+}
+
+// POSTs { text, alert } as JSON; Slack- and Discord-style incoming webhooks read `text`
+export function webhookChannel(url: string): NotificationChannel {
+  return {
+    name: 'webhook',
+    async send(alert) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ text: alert.message, alert }),
+      });
+      if (!res.ok) throw new Error(`Webhook responded ${res.status}`);
+    },
+  };
+}
+
+export interface EmailRelayConfig {
+  // HTTP endpoint that turns { from, to, subject, text } into an SMTP message
+  url: string;
+  from: string;
+  to: string;
+  apiKey?: string;
+}
+
+// Workers cannot open SMTP connections, so mail goes through an HTTP relay
+export function emailRelayChannel(config: EmailRelayConfig): NotificationChannel {
+  return {
+    name: 'email',
+    async send(alert) {
+      const res = await fetch(config.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(config.apiKey ? { authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          from: config.from,
+          to: config.to,
+          subject: alert.kind === 'back_in_stock' ? `Back in stock: ${alert.module}` : `Price drop: ${alert.module}`,
+          text: [alert.message, alert.storeUrl].filter(Boolean).join('\n'),
+        }),
+      });
+      if (!res.ok) throw new Error(`Email relay responded ${res.status}`);
+    },
+  };
+}
+
+// Desktop notification; silently does nothing until the user has granted permission
+export function browserChannel(): NotificationChannel {
+  return {
+    name: 'browser',
+    async send(alert) {
+      if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+      const notification = new Notification(alert.kind === 'back_in_stock' ? 'Back in stock' : 'Price drop', {
+        body: alert.message,
+        tag: `${alert.kind}-${alert.module}`,
+      });
+      if (alert.storeUrl) notification.onclick = () => window.open(alert.storeUrl, '_blank');
+    },
+  };
+}
+
+// Send every alert on every channel; one failing channel does not stop the others
+export async function notifyAll(channels: NotificationChannel[], alerts: WatchAlert[]): Promise<string[]> {
+  const results = await Promise.allSettled(channels.flatMap(channel => alerts.map(alert => channel.send(alert))));
+  return results.flatMap(r => (r.status === 'rejected' ? [String(r.reason?.message ?? r.reason)] : []));
+}
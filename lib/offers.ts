@@ -0,0 +1,36 @@
+import { PrisjaktProduct, RAMModuleWithPrice } from '@/types/ram';
+
+// Store offers for a module as returned by the Prisjakt search route
+
+export type OfferSort = 'asc' | 'desc';
+
+// Cheapest in-stock offer, falling back to the cheapest offer overall
+export function bestOffer(offers: PrisjaktProduct[]): PrisjaktProduct | undefined {
+  const byPrice = [...offers].sort((a, b) => a.price - b.price);
+  return byPrice.find(o => o.availability === 'in_stock') ?? byPrice[0];
+}
+
+// Offers by price, optionally only those in stock
+export function sortOffers(offers: PrisjaktProduct[], sort: OfferSort = 'asc', inStockOnly = false): PrisjaktProduct[] {
+  return offers
+    .filter(o => !inStockOnly || o.availability === 'in_stock')
+    .sort((a, b) => (sort === 'asc' ? a.price - b.price : b.price - a.price));
+}
+
+// Module with every offer kept and the headline price taken from the best one
+export function withOffers(module: RAMModuleWithPrice, offers: PrisjaktProduct[]): RAMModuleWithPrice {
+  const best = bestOffer(offers);
+  if (!best) {
+    return { ...module, offers: [], price: undefined, store: 'Not Found', lastUpdated: new Date() };
+  }
+  return {
+    ...module,
+    offers,
+    price: best.price,
+    currency: best.currency,
+    availability: best.availability,
+    store: best.store,
+    storeUrl: best.storeUrl,
+    lastUpdated: new Date(),
+  };
+}
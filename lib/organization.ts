@@ -0,0 +1,87 @@
+import { dieLookupOptions } from '@/lib/die-inference';
+import { densityVariants, matchDie } from '@/lib/die-knowledge-base';
+import { RAMModule } from '@/types/ram';
+
+// Module organization: ranks, IC density and IC width, derived from stick capacity, SS/DS
+// and the die. A rank is 64 data bits wide, i.e. eight x8 or four x16 ICs, so
+// capacity per rank = density (Gb) for x8 and density / 2 for x16.
+
+export type IcWidth = 'x8' | 'x16';
+
+export interface ModuleOrganization {
+  ranks?: number;
+  // IC density, e.g. "24Gb"
+  density?: string;
+  width?: IcWidth;
+  // Data ICs on the stick (ECC chips not counted)
+  chips?: number;
+  // Why capacity, SS/DS and die do not add up
+  inconsistency?: string;
+}
+
+const densitiesByGeneration: Record<string, number[]> = {
+  DDR4: [4, 8, 16],
+  DDR5: [16, 24, 32],
+};
+
+const chipsPerRank: Record<IcWidth, number> = { x8: 8, x16: 4 };
+
+function fit(sizeGB: number, ranks: number[], densities: number[]): ModuleOrganization | null {
+  // x8 first: retail kits are x8 unless the capacity only works with x16
+  for (const width of ['x8', 'x16'] as IcWidth[]) {
+    for (const r of ranks) {
+      const density = (sizeGB * 8) / (r * chipsPerRank[width]);
+      if (densities.includes(density)) {
+        return { ranks: r, density: `${density}Gb`, width, chips: r * chipsPerRank[width] };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Derive ranks, IC density and width for a module. SS is read as single rank and DS as dual
+ * rank; a known die restricts the density to the ones it is made in. Combinations that no
+ * density fits are returned with an `inconsistency`.
+ */
+export function deriveOrganization(module: RAMModule): ModuleOrganization {
+  const ranks = module.rank === 'Single' ? [1] : module.rank === 'Dual' ? [2] : [1, 2];
+  const sizeGB = module.perStickSizeGB;
+  const generation = /ddr4/i.test(module.type) ? 'DDR4' : 'DDR5';
+  if (!sizeGB) return { ranks: ranks.length === 1 ? ranks[0] : undefined };
+
+  const densities = densitiesByGeneration[generation];
+  const { die } = matchDie(module.chip, dieLookupOptions(module));
+  // Only a named revision pins the density; manufacturer-only entries make any density possible
+  const dieDensities = die?.revision
+    ? densityVariants(die).map(d => Number.parseInt(d, 10)).filter(d => densities.includes(d))
+    : [];
+
+  if (dieDensities.length > 0) {
+    const withDie = fit(sizeGB, ranks, dieDensities);
+    if (withDie) return withDie;
+  }
+  const anyDensity = fit(sizeGB, ranks, densities);
+  const sides = module.rank === 'Single' ? 'single-rank' : module.rank === 'Dual' ? 'dual-rank' : '';
+  if (!anyDensity) {
+    return {
+      ranks: ranks.length === 1 ? ranks[0] : undefined,
+      inconsistency: `${sizeGB}GB ${sides} does not fit any ${generation} IC density`.replace(/\s+/g, ' '),
+    };
+  }
+  if (dieDensities.length > 0 && die) {
+    return {
+      ...anyDensity,
+      inconsistency: `${sizeGB}GB ${sides} needs ${anyDensity.density} ICs; ${module.chip} comes in ${densityVariants(die).join('/')}`
+        .replace(/\s+/g, ' '),
+    };
+  }
+  return anyDensity;
+}
+
+// "2 ranks of 8 × 24Gb x8 ICs" for tooltips
+export function describeOrganization(module: Pick<RAMModule, 'rank' | 'icDensity' | 'icWidth'>): string | undefined {
+  if (!module.icDensity || !module.icWidth) return undefined;
+  const ranks = module.rank === 'Dual' ? 2 : 1;
+  return `${ranks} rank${ranks > 1 ? 's' : ''} of ${chipsPerRank[module.icWidth]} × ${module.icDensity} ${module.icWidth} ICs`;
+}
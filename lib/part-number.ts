@@ -0,0 +1,182 @@
+// Vendor part-number (SKU) decoding. Kit SKUs encode speed, CAS latency, stick count and
+// capacity, which lets us fill or cross-check what a QVL row says about the module.
+
+export interface PartNumberInfo {
+  vendor: 'Kingston' | 'Corsair' | 'G.Skill' | 'Team';
+  generation?: 'DDR4' | 'DDR5';
+  speed?: number;
+  casLatency?: number;
+  trcd?: number;
+  sticks?: number;
+  perStickSizeGB?: number;
+  totalSizeGB?: number;
+  series?: string;
+  color?: string;
+  rgb?: boolean;
+}
+
+type Decoder = (sku: string) => PartNumberInfo | null;
+
+const generations: Record<string, PartNumberInfo['generation']> = { '4': 'DDR4', '5': 'DDR5' };
+
+// Fills whichever of per-stick/total size is missing from the other and the stick count
+function withSizes(info: PartNumberInfo): PartNumberInfo {
+  const { sticks, perStickSizeGB, totalSizeGB } = info;
+  if (sticks && perStickSizeGB !== undefined && totalSizeGB === undefined) {
+    return { ...info, totalSizeGB: perStickSizeGB * sticks };
+  }
+  if (sticks && totalSizeGB !== undefined && perStickSizeGB === undefined) {
+    return { ...info, perStickSizeGB: totalSizeGB / sticks };
+  }
+  return info;
+}
+
+// KF560C36BBEAK2-32: FURY, DDR5-6000, CL36, Beast, Black, EXPO, RGB, kit of 2, 32GB total
+const kingstonFurySeries: Record<string, string> = { B: 'FURY Beast', R: 'FURY Renegade', I: 'FURY Impact' };
+const kingstonColors: Record<string, string> = { B: 'Black', W: 'White', S: 'Silver' };
+
+const decodeKingston: Decoder = (sku) => {
+  const fury = sku.match(/^KF(\d)(\d{2})C(\d{2})([BRI])([BWS])?(E)?(A)?(?:K(\d))?-(\d+)/);
+  if (fury) {
+    const sticks = fury[8] ? Number(fury[8]) : 1;
+    return withSizes({
+      vendor: 'Kingston',
+      generation: generations[fury[1]],
+      speed: Number(fury[2]) * 100,
+      casLatency: Number(fury[3]),
+      series: kingstonFurySeries[fury[4]],
+      color: fury[5] ? kingstonColors[fury[5]] : undefined,
+      rgb: !!fury[7],
+      sticks,
+      totalSizeGB: Number(fury[9]),
+    });
+  }
+
+  // KVR52U42BS6K2-16 (ValueRAM) and KSM48E40BD8KM-32HM (server)
+  const value = sku.match(/^K(VR|SM)(\d{2})[A-Z](\d{2})[A-Z0-9]*?(?:K(\d))?-(\d+)/);
+  if (value) {
+    return withSizes({
+      vendor: 'Kingston',
+      speed: Number(value[2]) * 100,
+      casLatency: Number(value[3]),
+      series: value[1] === 'VR' ? 'ValueRAM' : 'Server Premier',
+      sticks: value[4] ? Number(value[4]) : 1,
+      totalSizeGB: Number(value[5]),
+    });
+  }
+  return null;
+};
+
+// CMK32GX5M2B5600C36W: Vengeance, 32GB total, DDR5, 2 modules, 5600, CL36, white
+const corsairSeries: Record<string, { series: string; rgb: boolean }> = {
+  K: { series: 'Vengeance', rgb: false },
+  H: { series: 'Vengeance RGB', rgb: true },
+  N: { series: 'Vengeance RGB', rgb: true },
+  W: { series: 'Vengeance RGB Pro', rgb: true },
+  P: { series: 'Dominator Platinum RGB', rgb: true },
+  T: { series: 'Dominator Titanium', rgb: true },
+  SX: { series: 'Vengeance SODIMM', rgb: false },
+};
+
+const decodeCorsair: Decoder = (sku) => {
+  // Z in place of C marks the EXPO-tuned variants
+  const m = sku.match(/^CM([A-Z]{1,2})(\d+)GX(\d)M(\d)[A-Z](\d{4})[CZ](\d{2})([A-Z]*)/);
+  if (!m) return null;
+  const series = corsairSeries[m[1]];
+  return withSizes({
+    vendor: 'Corsair',
+    generation: generations[m[3]],
+    speed: Number(m[5]),
+    casLatency: Number(m[6]),
+    series: series?.series,
+    rgb: series?.rgb,
+    color: m[7].startsWith('W') ? 'White' : 'Black',
+    sticks: Number(m[4]),
+    totalSizeGB: Number(m[2]),
+  });
+};
+
+// F5-6000J3636F16GX2-TZ5RK: DDR5-6000, CL36, tRCD 36, 16GB per stick, kit of 2, Trident Z5 RGB, black
+const gskillSeries: [string, string, boolean][] = [
+  ['TZ5NR', 'Trident Z5 Neo RGB', true],
+  ['TZ5N', 'Trident Z5 Neo', false],
+  ['TZ5CR', 'Trident Z5 CK RGB', true],
+  ['TZ5R', 'Trident Z5 RGB', true],
+  ['TZ5', 'Trident Z5', false],
+  ['RS5', 'Ripjaws S5', false],
+  ['RM5R', 'Ripjaws M5 RGB', true],
+  ['FX5', 'Flare X5', false],
+];
+const gskillColors: Record<string, string> = { K: 'Black', S: 'Silver', W: 'White' };
+
+const decodeGSkill: Decoder = (sku) => {
+  const m = sku.match(/^F(\d)-(\d{4})[A-Z](\d{2})(\d{2})[A-Z](\d+)G[XA](\d)-([A-Z0-9]+)/);
+  if (!m) return null;
+  const suffix = m[7];
+  const series = gskillSeries.find(([code]) => suffix.startsWith(code));
+  const colorCode = series ? suffix.slice(series[0].length) : '';
+  return withSizes({
+    vendor: 'G.Skill',
+    generation: generations[m[1]],
+    speed: Number(m[2]),
+    casLatency: Number(m[3]),
+    trcd: Number(m[4]),
+    series: series?.[1],
+    rgb: series?.[2],
+    color: gskillColors[colorCode],
+    sticks: Number(m[6]),
+    perStickSizeGB: Number(m[5]),
+  });
+};
+
+// TED516G5200C42DC01: Elite, DDR5, 16GB total, 5200, CL42, dual-channel kit.
+// FF3D532G6000HC38ADC01: T-Force Delta RGB, DDR5, 32GB total, 6000, CL38, dual-channel kit.
+const teamSeries: Record<string, { series: string; rgb: boolean }> = {
+  TE: { series: 'Elite', rgb: false },
+  TPB: { series: 'Elite Plus', rgb: false },
+  FF3: { series: 'T-Force Delta RGB', rgb: true },
+  FLB: { series: 'T-Force Vulcan', rgb: false },
+  CTCC: { series: 'T-Create Classic', rgb: false },
+  CTCE: { series: 'T-Create Expert', rgb: false },
+};
+
+const decodeTeam: Decoder = (sku) => {
+  const m = sku.match(/^((?:CT|T|F)[A-Z0-9]*?)D(\d)(\d+)G(\d{4})H?C(\d{2})[A-Z]*?(DC|QC)?\d*$/);
+  if (!m) return null;
+  const series = teamSeries[m[1]];
+  // Without a DC/QC kit marker the stick count is not encoded
+  const sticks = m[6] === 'QC' ? 4 : m[6] === 'DC' ? 2 : undefined;
+  return withSizes({
+    vendor: 'Team',
+    generation: generations[m[2]],
+    speed: Number(m[4]),
+    casLatency: Number(m[5]),
+    series: series?.series,
+    rgb: series?.rgb,
+    sticks,
+    totalSizeGB: Number(m[3]),
+  });
+};
+
+const decoders: { vendor: RegExp; decode: Decoder }[] = [
+  { vendor: /kingston/i, decode: decodeKingston },
+  { vendor: /corsair/i, decode: decodeCorsair },
+  { vendor: /g\.?\s*skill/i, decode: decodeGSkill },
+  { vendor: /team/i, decode: decodeTeam },
+];
+
+/**
+ * Decode a module part number. When the vendor is known only its decoder is tried;
+ * otherwise every decoder is tried in turn. Returns null for unrecognized SKUs.
+ */
+export function decodePartNumber(module: string, vendor?: string): PartNumberInfo | null {
+  const sku = module.trim().toUpperCase().split(/\s+/)[0];
+  if (!sku) return null;
+
+  const byVendor = vendor ? decoders.filter(d => d.vendor.test(vendor)) : [];
+  for (const { decode } of byVendor.length > 0 ? byVendor : decoders) {
+    const info = decode(sku);
+    if (info) return info;
+  }
+  return null;
+}
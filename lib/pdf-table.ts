@@ -0,0 +1,154 @@
+// Table extraction from text-based PDF QVLs (no OCR). Text runs are grouped into lines by
+// their baseline, then into columns by clustering the x positions where cells start.
+
+export interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  page: number;
+}
+
+interface Cell {
+  text: string;
+  x: number;
+  right: number;
+}
+
+interface Line {
+  page: number;
+  y: number;
+  cells: Cell[];
+}
+
+// Lines with fewer cells than this are titles, footers or page numbers
+const MIN_TABLE_CELLS = 3;
+
+export async function extractPdfTable(data: ArrayBuffer): Promise<string[][]> {
+  return textItemsToRows(await extractPdfTextItems(data));
+}
+
+export async function extractPdfTextItems(data: ArrayBuffer): Promise<PositionedText[]> {
+  const pdfjs = await import('pdfjs-dist');
+  if (typeof window !== 'undefined' && !pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+
+  const document = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  const items: PositionedText[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        items.push({
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height || Math.abs(item.transform[3]),
+          page: pageNumber,
+        });
+      }
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  return items;
+}
+
+// Turn positioned text runs into table rows; non-tabular lines are dropped
+export function textItemsToRows(items: PositionedText[]): string[][] {
+  const lines = groupIntoLines(items).filter(line => line.cells.length >= MIN_TABLE_CELLS);
+  if (lines.length === 0) return [];
+
+  const columnStarts = detectColumnStarts(lines);
+  return lines.map((line) => {
+    const row: string[] = Array.from({ length: columnStarts.length }, () => '');
+    for (const cell of line.cells) {
+      const column = nearestColumn(columnStarts, cell.x);
+      row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+    }
+    return row;
+  });
+}
+
+function groupIntoLines(items: PositionedText[]): Line[] {
+  const heights = items.map(item => item.height).filter(h => h > 0).sort((a, b) => a - b);
+  const typicalHeight = heights.length ? heights[Math.floor(heights.length / 2)] : 10;
+  const yTolerance = typicalHeight * 0.5;
+
+  // Top-to-bottom within each page (PDF y grows upwards)
+  const sorted = [...items].sort((a, b) => a.page - b.page || b.y - a.y || a.x - b.x);
+  const lines: { page: number; y: number; items: PositionedText[] }[] = [];
+
+  for (const item of sorted) {
+    const current = lines[lines.length - 1];
+    if (current && current.page === item.page && Math.abs(current.y - item.y) <= yTolerance) {
+      current.items.push(item);
+    } else {
+      lines.push({ page: item.page, y: item.y, items: [item] });
+    }
+  }
+
+  return lines.map(line => ({ page: line.page, y: line.y, cells: mergeIntoCells(line.items, typicalHeight) }));
+}
+
+// Runs closer than about one character width belong to the same cell
+function mergeIntoCells(items: PositionedText[], typicalHeight: number): Cell[] {
+  const gapTolerance = typicalHeight * 0.6;
+  const cells: Cell[] = [];
+
+  for (const item of [...items].sort((a, b) => a.x - b.x)) {
+    const last = cells[cells.length - 1];
+    const text = item.text.trim();
+    if (last && item.x - last.right <= gapTolerance) {
+      const joiner = item.x - last.right > typicalHeight * 0.15 ? ' ' : '';
+      last.text = `${last.text}${joiner}${text}`;
+      last.right = Math.max(last.right, item.x + item.width);
+    } else {
+      cells.push({ text, x: item.x, right: item.x + item.width });
+    }
+  }
+
+  return cells;
+}
+
+// Cluster cell start positions; a column needs support from a fair share of the lines
+function detectColumnStarts(lines: Line[]): number[] {
+  const starts = lines.flatMap(line => line.cells.map(cell => cell.x)).sort((a, b) => a - b);
+  const tolerance = 6;
+  const clusters: { sum: number; count: number; max: number }[] = [];
+
+  for (const x of starts) {
+    const last = clusters[clusters.length - 1];
+    if (last && x - last.max <= tolerance) {
+      last.sum += x;
+      last.count++;
+      last.max = x;
+    } else {
+      clusters.push({ sum: x, count: 1, max: x });
+    }
+  }
+
+  const minSupport = Math.max(1, Math.floor(lines.length * 0.2));
+  const supported = clusters.filter(c => c.count >= minSupport).map(c => c.sum / c.count);
+  return supported.length > 0 ? supported : clusters.map(c => c.sum / c.count);
+}
+
+function nearestColumn(columnStarts: number[], x: number): number {
+  let best = 0;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  columnStarts.forEach((start, i) => {
+    const distance = Math.abs(start - x);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  });
+  return best;
+}
@@ -0,0 +1,102 @@
+import { normalizedSku } from '@/lib/sku';
+import { AvailabilityStatus, PrisjaktProduct } from '@/types/ram';
+
+// Timestamped price/availability snapshots per normalized module SKU. The browser keeps them
+// in IndexedDB; the worker keeps its own copy in the CACHE KV namespace.
+
+export interface PriceSnapshot {
+  // Epoch milliseconds
+  at: number;
+  price: number;
+  currency?: string;
+  availability?: AvailabilityStatus;
+  store?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Snapshots older than this are dropped when a new one is added
+export const PRICE_HISTORY_RETENTION_DAYS = 365;
+// A refresh within this window replaces the previous snapshot instead of adding one
+const SAME_SNAPSHOT_WINDOW_MS = 60 * 60 * 1000;
+
+export function priceHistoryKey(module: string): string {
+  return `price_history_${normalizedSku(module)}`;
+}
+
+export function snapshotFromOffer(offer: PrisjaktProduct, at = Date.now()): PriceSnapshot {
+  return { at, price: offer.price, currency: offer.currency, availability: offer.availability, store: offer.store };
+}
+
+// History with the snapshot added, oldest first
+export function appendSnapshot(history: PriceSnapshot[], snapshot: PriceSnapshot): PriceSnapshot[] {
+  const cutoff = snapshot.at - PRICE_HISTORY_RETENTION_DAYS * DAY_MS;
+  const kept = history.filter(s => s.at >= cutoff && snapshot.at - s.at >= SAME_SNAPSHOT_WINDOW_MS);
+  return [...kept, snapshot].sort((a, b) => a.at - b.at);
+}
+
+// Cheapest snapshot in the last `days` days
+export function lowestSince(history: PriceSnapshot[], days: number, now = Date.now()): PriceSnapshot | undefined {
+  return history
+    .filter(s => s.at >= now - days * DAY_MS)
+    .reduce<PriceSnapshot | undefined>((low, s) => (!low || s.price < low.price ? s : low), undefined);
+}
+
+// The browser's histories with the worker's added, keyed by priceHistoryKey. Snapshots taken
+// at the same moment are the same snapshot.
+export function mergePriceHistories(
+  local: Record<string, PriceSnapshot[]>,
+  remote: Record<string, PriceSnapshot[]>
+): Record<string, PriceSnapshot[]> {
+  const merged = { ...local };
+  for (const [key, history] of Object.entries(remote)) {
+    const byTime = new Map([...(merged[key] ?? []), ...history].map(s => [s.at, s]));
+    merged[key] = Array.from(byTime.values()).sort((a, b) => a.at - b.at);
+  }
+  return merged;
+}
+
+// IndexedDB storage, one record per SKU key
+
+const DB_NAME = 'hitta-ram';
+const STORE_NAME = 'priceHistory';
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof window === 'undefined' || !window.indexedDB) return Promise.resolve(null);
+  return new Promise(resolve => {
+    const request = window.indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    // Private browsing and blocked storage just mean no history
+    request.onerror = () => resolve(null);
+  });
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Stored histories for the given modules, keyed by priceHistoryKey
+export async function loadPriceHistories(modules: string[]): Promise<Record<string, PriceSnapshot[]>> {
+  const db = await openDatabase();
+  if (!db) return {};
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const keys = Array.from(new Set(modules.map(priceHistoryKey)));
+  const histories = await Promise.all(keys.map(key => requestResult<PriceSnapshot[] | undefined>(store.get(key))));
+  db.close();
+  return Object.fromEntries(keys.flatMap((key, i) => (histories[i] ? [[key, histories[i]]] : [])));
+}
+
+// Record a snapshot for the module and return its updated history
+export async function recordPriceSnapshot(module: string, snapshot: PriceSnapshot): Promise<PriceSnapshot[] | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+  const key = priceHistoryKey(module);
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const history = appendSnapshot((await requestResult<PriceSnapshot[] | undefined>(store.get(key))) ?? [], snapshot);
+  await requestResult(store.put(history, key));
+  db.close();
+  return history;
+}
@@ -0,0 +1,13 @@
+// Upstream host a Prisjakt search reaches, for request spacing. Every search leaves the
+// server: with an API key it goes to the partner API, without one (which includes the "Mock
+// API" setting, that only withholds the key) the public site is scraped.
+
+export const PRISJAKT_API_HOST = 'api.prisjakt.nu';
+export const PRISJAKT_SITE_HOST = 'www.prisjakt.nu';
+
+// Minimum gap between two searches started against the same host
+export const PRISJAKT_REQUEST_INTERVAL_MS = 500;
+
+export function prisjaktSearchHost(apiKey?: string): string {
+  return apiKey ? PRISJAKT_API_HOST : PRISJAKT_SITE_HOST;
+}
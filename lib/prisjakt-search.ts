@@ -0,0 +1,59 @@
+import { BoundedCache } from '@/lib/bounded-cache';
+import { HostLimiter } from '@/lib/host-limiter';
+import { PrisjaktAPI } from '@/lib/prisjakt-api';
+import { PRISJAKT_REQUEST_INTERVAL_MS, prisjaktSearchHost } from '@/lib/prisjakt-host';
+import { scrapePrisjaktProduct, scrapePrisjaktSearch } from '@/lib/prisjakt-scraper';
+import { cleanProductName } from '@/lib/sku';
+import { PrisjaktProduct } from '@/types/ram';
+
+// Server-side module search shared by the single and batch search routes. Results are cached
+// in memory per cleaned module number, so a batch and the single-row lookups that follow it
+// do not search Prisjakt twice; concurrent lookups of one module share the request. Requests
+// to Prisjakt are spaced per host across every route, batch and browser tab this process
+// serves (each server instance keeps its own spacing).
+
+// One line of the batch search stream
+export interface BatchSearchLine {
+  // Cleaned module number that was searched
+  moduleNumber: string;
+  // Module numbers from the request that share it
+  requested: string[];
+  products?: PrisjaktProduct[];
+  error?: string;
+}
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 1000;
+const cache = new BoundedCache<Promise<PrisjaktProduct[]>>(CACHE_TTL_MS, CACHE_MAX_ENTRIES);
+const upstream = new HostLimiter(PRISJAKT_REQUEST_INTERVAL_MS);
+
+async function resolveModule(moduleNumber: string, apiKey?: string): Promise<PrisjaktProduct[]> {
+  // Without an API key, fall back to scraping
+  if (!apiKey) {
+    // Search with the exact module number (SKU)
+    const query = cleanProductName(moduleNumber);
+    console.log(`Searching for: "${query}"`);
+    await upstream.wait(prisjaktSearchHost());
+    const products = await scrapePrisjaktSearch(query);
+    if (products.length !== 1) return products;
+    // A single hit is a product page; its offers carry the store prices
+    await upstream.wait(prisjaktSearchHost());
+    return scrapePrisjaktProduct(products[0].storeUrl);
+  }
+
+  await upstream.wait(prisjaktSearchHost(apiKey));
+  return new PrisjaktAPI(apiKey).searchRAM(moduleNumber);
+}
+
+export function searchModule(moduleNumber: string, apiKey?: string, now = Date.now()): Promise<PrisjaktProduct[]> {
+  // The key only says which source answered; the API key itself is never stored
+  const key = `${apiKey ? 'api' : 'scrape'}:${cleanProductName(moduleNumber)}`;
+  const cached = cache.get(key, now);
+  if (cached) return cached;
+
+  const products = resolveModule(moduleNumber, apiKey);
+  cache.set(key, products, now);
+  // Failed searches are retried on the next request instead of cached
+  products.catch(() => cache.deleteIf(key, products));
+  return products;
+}
@@ -0,0 +1,188 @@
+import { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { LookupFunction, isIP } from 'node:net';
+import { Agent } from 'undici';
+
+// Server-side fetch of user-supplied URLs that cannot be turned against the local network:
+// every redirect hop is checked again, and hostnames are resolved by the connection itself,
+// which refuses to connect when any address is private. Checking in a separate lookup first
+// would let a rebinding DNS server answer differently for the real connection. The body is
+// counted while it streams.
+
+export interface PublicFetchOptions {
+  headers?: Record<string, string>;
+  maxBytes: number;
+  maxRedirects?: number;
+}
+
+export interface PublicFetchResult {
+  // Final URL after redirects
+  url: URL;
+  contentType: string;
+  body: ArrayBuffer;
+}
+
+// Carries the status the import route should answer with
+export class PublicFetchError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'PublicFetchError';
+  }
+}
+
+const DEFAULT_MAX_REDIRECTS = 5;
+const NOT_PUBLIC = 'Only public http(s) URLs can be imported';
+
+// The eight 16-bit groups of an IPv6 address, with a trailing dotted IPv4 part converted
+function ipv6Groups(ip: string): number[] {
+  const dotted = ip.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  const hex = dotted
+    ? `${dotted[1]}${((Number(dotted[2]) << 8) | Number(dotted[3])).toString(16)}:${((Number(dotted[4]) << 8) | Number(dotted[5])).toString(16)}`
+    : ip;
+  const [head, tail] = hex.split('::');
+  const parse = (part?: string) => (part ? part.split(':').map(group => Number.parseInt(group, 16)) : []);
+  const front = parse(head);
+  const back = parse(tail);
+  return tail === undefined ? front : [...front, ...new Array(8 - front.length - back.length).fill(0), ...back];
+}
+
+// IPv4 address carried in the last 32 bits of an IPv4-mapped (::ffff:0:0/96), IPv4-compatible
+// (::/96) or NAT64 (64:ff9b::/96) address; these reach the IPv4 host
+function embeddedIPv4(groups: number[]): string | undefined {
+  const prefix = groups.slice(0, 6).join(':');
+  if (prefix !== '0:0:0:0:0:65535' && prefix !== '0:0:0:0:0:0' && prefix !== '100:65435:0:0:0:0') return undefined;
+  return [groups[6] >> 8, groups[6] & 255, groups[7] >> 8, groups[7] & 255].join('.');
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return (
+      a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  // Anything that does not parse as an address is not trusted
+  if (isIP(ip) !== 6) return true;
+  const ipv4 = embeddedIPv4(ipv6Groups(ip));
+  if (ipv4) return isPrivateAddress(ipv4);
+  return (
+    /^f[cd]/.test(ip) ||        // unique local
+    /^fe[89ab]/.test(ip) ||     // link-local
+    /^ff/.test(ip)              // multicast
+  );
+}
+
+// Scheme and literal-host checks that need no DNS
+export function isAllowedUrl(url: URL): boolean {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+  if (url.username || url.password) return false;
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return false;
+  }
+  return !(isIP(host) && isPrivateAddress(host));
+}
+
+export type ResolveHost = (host: string) => Promise<LookupAddress[]>;
+
+const resolveHost: ResolveHost = host => lookup(host, { all: true });
+
+/**
+ * DNS lookup for outgoing connections that fails when any address of the host is private.
+ * The connection uses the addresses this returns, so what was checked is what is reached.
+ */
+export function publicLookup(resolve: ResolveHost = resolveHost): LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname).then(
+      addresses => {
+        if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+          callback(new PublicFetchError(NOT_PUBLIC, 400), '', 0);
+        } else if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+      () => callback(new PublicFetchError(`Could not resolve ${hostname}`, 502), '', 0)
+    );
+  };
+}
+
+// Literal IP hosts connect without a lookup and are checked by isAllowedUrl instead
+const publicAgent = new Agent({ connect: { lookup: publicLookup() } });
+
+// Errors from the connection arrive as the cause of fetch's TypeError
+function fetchFailure(error: unknown): PublicFetchError {
+  if (error instanceof PublicFetchError) return error;
+  const cause = typeof error === 'object' && error && 'cause' in error ? error.cause : undefined;
+  if (cause instanceof PublicFetchError) return cause;
+  return new PublicFetchError('Fetching the URL failed', 502);
+}
+
+async function readLimited(res: Response, maxBytes: number): Promise<ArrayBuffer> {
+  if (Number(res.headers.get('content-length') ?? 0) > maxBytes) {
+    throw new PublicFetchError('The file is too large to import', 413);
+  }
+  if (!res.body) return new ArrayBuffer(0);
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new PublicFetchError('The file is too large to import', 413);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body.buffer;
+}
+
+export async function fetchPublic(start: URL, options: PublicFetchOptions): Promise<PublicFetchResult> {
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  let url = start;
+
+  for (let hop = 0; ; hop++) {
+    if (!isAllowedUrl(url)) throw new PublicFetchError(NOT_PUBLIC, 400);
+    // `dispatcher` is read by Node's fetch but is missing from the DOM RequestInit type
+    const init: RequestInit & { dispatcher: Agent } = { headers: options.headers, redirect: 'manual', dispatcher: publicAgent };
+    let res: Response;
+    try {
+      res = await fetch(url.toString(), init);
+    } catch (e) {
+      throw fetchFailure(e);
+    }
+
+    if (res.status >= 300 && res.status < 400) {
+      const location = res.headers.get('location');
+      await res.body?.cancel();
+      if (!location) throw new PublicFetchError(`Fetching the URL failed with status ${res.status}`, 502);
+      if (hop >= maxRedirects) throw new PublicFetchError('Too many redirects', 502);
+      url = new URL(location, url);
+      continue;
+    }
+    if (!res.ok) {
+      await res.body?.cancel();
+      throw new PublicFetchError(`Fetching the URL failed with status ${res.status}`, 502);
+    }
+
+    const body = await readLimited(res, options.maxBytes);
+    return { url, contentType: (res.headers.get('content-type') ?? '').toLowerCase(), body };
+  }
+}
@@ -0,0 +1,65 @@
+import type { ColumnField } from '@/lib/csv-parser';
+
+// Positional column layouts for QVL dumps that ship without a header row.
+// Add a profile here when a board vendor publishes a different layout.
+export interface QVLProfileColumn {
+  label: string;
+  field: ColumnField | null;
+  // What a typical data cell in this position looks like; used to pick a profile
+  sample?: RegExp;
+}
+
+export interface QVLProfile {
+  id: string;
+  name: string;
+  description: string;
+  columns: QVLProfileColumn[];
+}
+
+export const qvlProfiles: Record<string, QVLProfile> = {
+  'standard-qvl': {
+    id: 'standard-qvl',
+    name: 'Standard motherboard QVL',
+    description: 'Type, Vendor, RAM Speed, Supported Speed, Size, Module, Chip, SS/DS, XMP, EXPO, DIMM Socket Support, OC, BIOS, Note',
+    columns: [
+      { label: 'Type', field: 'type', sample: /^ddr\d/i },
+      { label: 'Vendor', field: 'vendor' },
+      { label: 'RAM Speed', field: 'ramSpeed', sample: /^\d{4,5}$/ },
+      { label: 'Supported Speed', field: 'supportedSpeed', sample: /^\d{4,5}$/ },
+      { label: 'Size', field: 'size', sample: /^\d+(\.\d+)?\s*gb?$/i },
+      { label: 'Module', field: 'module' },
+      { label: 'Chip', field: 'chip' },
+      { label: 'SS/DS', field: 'ssDs', sample: /^(ss|ds)$/i },
+      { label: 'XMP', field: 'xmp' },
+      { label: 'EXPO', field: 'expo' },
+      { label: 'DIMM Socket Support', field: 'dimmSocketSupport', sample: /^\d(\/\d)*$/ },
+      { label: 'OC', field: 'oc' },
+      { label: 'BIOS', field: 'bios' },
+      { label: 'Note', field: 'note' }
+    ]
+  }
+};
+
+export const defaultQVLProfileId = 'standard-qvl';
+
+// Pick the profile whose sample patterns best fit the first data row
+export function detectQVLProfile(cells: string[]): QVLProfile {
+  let best = qvlProfiles[defaultQVLProfileId];
+  let bestScore = -1;
+
+  for (const profile of Object.values(qvlProfiles)) {
+    let score = 0;
+    profile.columns.forEach((column, i) => {
+      const cell = (cells[i] ?? '').trim();
+      if (column.sample && cell && column.sample.test(cell)) score++;
+    });
+    // Prefer profiles whose width matches the row exactly
+    if (profile.columns.length === cells.length) score += 0.5;
+    if (score > bestScore) {
+      bestScore = score;
+      best = profile;
+    }
+  }
+
+  return best;
+}
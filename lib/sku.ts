@@ -0,0 +1,16 @@
+// Module part-number (SKU) normalization shared by the search routes and the workspace
+
+// Remove version numbers from product names (e.g., "ver 5.53.13")
+export function cleanProductName(name: string): string {
+  return name.replace(/\s+ver\s+[\d.]+/gi, '').trim();
+}
+
+// Exact SKU identity: case and spacing differences only
+export function skuKey(module: string): string {
+  return module.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+// SKU with revision suffixes stripped, for comparing kits across boards
+export function normalizedSku(module: string): string {
+  return skuKey(cleanProductName(module));
+}
@@ -0,0 +1,54 @@
+import * as XLSX from 'xlsx';
+
+// Spreadsheet and delimited-text ingestion; everything ends up as raw cells for buildRawTable.
+// Workbooks come from vendor sites and are parsed in the browser only, so a crafted file cannot
+// affect the server. SheetJS publishes fixed releases (0.20.2 and later) only on its own CDN,
+// which is where package.json installs xlsx from.
+export type ImportFileKind = 'delimited' | 'spreadsheet' | 'pdf';
+
+const delimitedExtensions = ['.csv', '.tsv', '.tab', '.txt'];
+const spreadsheetExtensions = ['.xlsx', '.xlsm', '.xls', '.ods'];
+
+export const importFileAccept = [...delimitedExtensions, ...spreadsheetExtensions, '.pdf'].join(',');
+
+export function getImportFileKind(fileName: string): ImportFileKind | null {
+  const name = fileName.toLowerCase();
+  if (delimitedExtensions.some(ext => name.endsWith(ext))) return 'delimited';
+  if (spreadsheetExtensions.some(ext => name.endsWith(ext))) return 'spreadsheet';
+  if (name.endsWith('.pdf')) return 'pdf';
+  return null;
+}
+
+// Tab-separated files are named as such; anything else lets PapaParse guess the delimiter
+export function delimiterForFile(fileName: string): string | undefined {
+  const name = fileName.toLowerCase();
+  return name.endsWith('.tsv') || name.endsWith('.tab') ? '\t' : undefined;
+}
+
+export function readWorkbook(data: ArrayBuffer): XLSX.WorkBook {
+  return XLSX.read(data, { type: 'array' });
+}
+
+export interface SheetSummary {
+  name: string;
+  rowCount: number;
+}
+
+export function summarizeSheets(workbook: XLSX.WorkBook): SheetSummary[] {
+  return workbook.SheetNames.map((name) => {
+    const ref = workbook.Sheets[name]?.['!ref'];
+    const rowCount = ref ? XLSX.utils.decode_range(ref).e.r + 1 : 0;
+    return { name, rowCount };
+  });
+}
+
+// One array per sheet row, formatted as displayed, blank rows kept so row numbers line up
+export function sheetToCells(workbook: XLSX.WorkBook, sheetName: string): string[][] {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) return [];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+  // sheet_to_json starts at the used range; pad so index + 1 is the sheet row number
+  const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r : 0;
+  const padding: string[][] = Array.from({ length: firstRow }, () => []);
+  return padding.concat(rows.map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell)))));
+}
@@ -0,0 +1,40 @@
+// Primary timings and DRAM voltage, read from QVL columns, notes and part numbers
+
+export interface Timings {
+  casLatency?: number;
+  trcd?: number;
+  trp?: number;
+  tras?: number;
+}
+
+// "36-38-38-80", "CL36-38-38-80" or "36/38/38/80"; at least CL-tRCD-tRP
+export function parseTimings(text: string): Timings | null {
+  const m = text.match(/(?:^|[^\d.])(?:CL\s*)?(\d{2})\s*[-/]\s*(\d{2})\s*[-/]\s*(\d{2})(?:\s*[-/]\s*(\d{2,3}))?(?![\d.])/i);
+  if (!m) return null;
+  return {
+    casLatency: Number(m[1]),
+    trcd: Number(m[2]),
+    trp: Number(m[3]),
+    tras: m[4] ? Number(m[4]) : undefined,
+  };
+}
+
+// A CAS latency column value such as "36", "CL36" or "C36"; in free text only "CL36" counts
+export function parseCasLatency(text: string, requirePrefix = false): number | undefined {
+  const pattern = requirePrefix ? /\bCL\s*(\d{2})\b/i : /^\s*(?:CL?\s*)?(\d{1,2})\s*$/i;
+  const m = text.match(pattern);
+  return m ? Number(m[1]) : undefined;
+}
+
+// "1.35", "1.35V" or "1.35 V"; notes need the unit so speeds and versions are not mistaken for volts
+export function parseVoltage(text: string, requireUnit = false): number | undefined {
+  const pattern = requireUnit ? /\b([0-2]\.\d{1,3})\s*V\b/i : /^\s*([0-2]\.\d{1,3})\s*V?\s*$/i;
+  const m = text.match(pattern);
+  return m ? Number(m[1]) : undefined;
+}
+
+// Time to the first word in nanoseconds: CL cycles at half the transfer rate
+export function firstWordLatencyNs(casLatency: number | undefined, speedMTs: number | undefined): number | undefined {
+  if (!casLatency || !speedMTs) return undefined;
+  return Math.round((casLatency * 2000 / speedMTs) * 100) / 100;
+}
@@ -0,0 +1,87 @@
+import { dieLookupOptions } from '@/lib/die-inference';
+import { getDieInfo } from '@/lib/die-knowledge-base';
+import { firstWordLatencyNs } from '@/lib/timings';
+import { DieInfo, RAMModuleWithPrice } from '@/types/ram';
+
+// Cost-efficiency metrics for priced modules
+
+// Relative importance of each part of the performance score; 0 leaves a part out
+export interface ValueScoreWeights {
+  speed: number;
+  latency: number;
+  die: number;
+}
+
+export const defaultValueScoreWeights: ValueScoreWeights = { speed: 1, latency: 1, die: 1 };
+
+// Ranges the speed and latency parts are scaled over; values outside are clamped
+const SPEED_RANGE: [number, number] = [4800, 8000];
+const LATENCY_RANGE_NS: [number, number] = [8, 14];
+
+const diePerformanceScores: Record<DieInfo['performance'], number> = {
+  Premium: 1,
+  High: 0.75,
+  Medium: 0.5,
+  Low: 0.25,
+  Unknown: 0.25,
+};
+
+function speedOf(module: RAMModuleWithPrice): number | undefined {
+  const speed = Number(String(module.ramSpeed ?? '').replace(/[^0-9.]/g, ''));
+  return speed > 0 ? speed : undefined;
+}
+
+function scale(value: number, [low, high]: [number, number]): number {
+  return Math.min(1, Math.max(0, (value - low) / (high - low)));
+}
+
+export function pricePerGB(module: RAMModuleWithPrice): number | undefined {
+  if (!module.price || !module.totalSizeGB) return undefined;
+  return module.price / module.totalSizeGB;
+}
+
+export function pricePerMTs(module: RAMModuleWithPrice): number | undefined {
+  const speed = speedOf(module);
+  if (!module.price || !speed) return undefined;
+  return module.price / speed;
+}
+
+/**
+ * Performance score (0-100) from speed, first-word latency and die quality.
+ * Parts that cannot be computed for a module are left out of the weighting.
+ */
+export function performanceScore(module: RAMModuleWithPrice, weights: ValueScoreWeights = defaultValueScoreWeights): number {
+  const speed = speedOf(module);
+  const latency = firstWordLatencyNs(module.casLatency, speed);
+  const die = getDieInfo(module.chip, dieLookupOptions(module));
+
+  const parts: [number, number][] = [];
+  if (speed) parts.push([weights.speed, scale(speed, SPEED_RANGE)]);
+  if (latency !== undefined) parts.push([weights.latency, 1 - scale(latency, LATENCY_RANGE_NS)]);
+  parts.push([weights.die, diePerformanceScores[die?.performance ?? 'Unknown']]);
+
+  const totalWeight = parts.reduce((sum, [weight]) => sum + weight, 0);
+  if (totalWeight === 0) return 0;
+  return Math.round((parts.reduce((sum, [weight, score]) => sum + weight * score, 0) / totalWeight) * 100);
+}
+
+// Performance points per 1000 of the price currency; higher is better value
+export function valueScore(module: RAMModuleWithPrice, weights: ValueScoreWeights = defaultValueScoreWeights): number | undefined {
+  if (!module.price) return undefined;
+  return Math.round((performanceScore(module, weights) / module.price) * 1000 * 10) / 10;
+}
+
+// The module with the highest value score in each total-capacity tier
+export function bestValueByCapacity(
+  modules: RAMModuleWithPrice[],
+  weights: ValueScoreWeights = defaultValueScoreWeights
+): Set<RAMModuleWithPrice> {
+  const best = new Map<number, { module: RAMModuleWithPrice; score: number }>();
+  for (const module of modules) {
+    const score = valueScore(module, weights);
+    if (score === undefined || !module.totalSizeGB) continue;
+    const current = best.get(module.totalSizeGB);
+    if (!current || score > current.score) best.set(module.totalSizeGB, { module, score });
+  }
+  return new Set(Array.from(best.values(), entry => entry.module));
+}
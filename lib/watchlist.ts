@@ -0,0 +1,130 @@
+import { normalizedSku } from '@/lib/sku';
+import { AvailabilityStatus, PrisjaktProduct } from '@/types/ram';
+
+// Starred modules and the price/availability last seen for them. A re-check compares fresh
+// offers against that state and raises an alert only on a change, so a module that stays
+// cheap or in stock does not alert on every refresh.
+
+export interface WatchEntry {
+  module: string;
+  // Alert when the best in-stock price is at or below this
+  targetPrice?: number;
+  // Best in-stock price at the last check; undefined when nothing was in stock
+  lastPrice?: number;
+  lastAvailability?: AvailabilityStatus;
+  addedAt: string;
+}
+
+export type WatchAlertKind = 'price_drop' | 'back_in_stock';
+
+export interface WatchAlert {
+  kind: WatchAlertKind;
+  module: string;
+  price: number;
+  currency?: string;
+  store?: string;
+  storeUrl?: string;
+  message: string;
+}
+
+const STORAGE_KEY = 'hitta-ram:watchlist';
+const AVAILABILITY: AvailabilityStatus[] = ['in_stock', 'incoming', 'not_available'];
+
+export function findWatch(watchlist: WatchEntry[], module: string): WatchEntry | undefined {
+  const sku = normalizedSku(module);
+  return watchlist.find(entry => normalizedSku(entry.module) === sku);
+}
+
+// Star or unstar a module
+export function toggleWatch(watchlist: WatchEntry[], module: string): WatchEntry[] {
+  if (findWatch(watchlist, module)) {
+    const sku = normalizedSku(module);
+    return watchlist.filter(entry => normalizedSku(entry.module) !== sku);
+  }
+  return [...watchlist, { module, addedAt: new Date().toISOString() }];
+}
+
+export function updateWatch(watchlist: WatchEntry[], module: string, patch: Partial<WatchEntry>): WatchEntry[] {
+  const sku = normalizedSku(module);
+  return watchlist.map(entry => (normalizedSku(entry.module) === sku ? { ...entry, ...patch } : entry));
+}
+
+export interface WatchlistLimits {
+  maxEntries: number;
+  maxModuleLength: number;
+}
+
+/**
+ * Watch entries from untrusted JSON with only the known fields kept. Returns null when the
+ * value is not a list or breaks a limit, so a request cannot store an unbounded list for the
+ * cron to search.
+ */
+export function parseWatchlist(value: unknown, limits: WatchlistLimits): WatchEntry[] | null {
+  if (!Array.isArray(value) || value.length > limits.maxEntries) return null;
+  const price = (n: unknown) => (typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : undefined);
+  const entries: WatchEntry[] = [];
+  for (const item of value) {
+    const module = typeof item?.module === 'string' ? item.module.trim() : '';
+    if (!module || module.length > limits.maxModuleLength) return null;
+    entries.push({
+      module,
+      targetPrice: price(item.targetPrice),
+      lastPrice: price(item.lastPrice),
+      lastAvailability: AVAILABILITY.includes(item.lastAvailability) ? item.lastAvailability : undefined,
+      addedAt: typeof item.addedAt === 'string' ? item.addedAt.slice(0, 40) : new Date().toISOString(),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Combine a copy of the watchlist owned elsewhere with the stored one. `incoming` decides which
+ * modules are watched and their targets; the last seen price and availability are kept from
+ * `base` for modules it already checked.
+ */
+export function mergeWatchlist(base: WatchEntry[], incoming: WatchEntry[]): WatchEntry[] {
+  return incoming.map(entry => {
+    const seen = findWatch(base, entry.module);
+    return seen ? { ...entry, lastPrice: seen.lastPrice, lastAvailability: seen.lastAvailability } : entry;
+  });
+}
+
+/**
+ * Compare fresh offers for a watched module with its last seen state. Returns the alerts to
+ * send and the entry to store for the next check.
+ */
+export function checkWatch(entry: WatchEntry, offers: PrisjaktProduct[]): { alerts: WatchAlert[]; entry: WatchEntry } {
+  const inStock = offers.filter(o => o.availability === 'in_stock').sort((a, b) => a.price - b.price)[0];
+  const availability = inStock ? 'in_stock' : [...offers].sort((a, b) => a.price - b.price)[0]?.availability;
+  const alerts: WatchAlert[] = [];
+
+  if (inStock) {
+    const offer = { module: entry.module, price: inStock.price, currency: inStock.currency, store: inStock.store, storeUrl: inStock.storeUrl };
+    const price = `${inStock.price.toLocaleString()} ${inStock.currency ?? ''}`.trim();
+    if (entry.lastAvailability === 'not_available' || entry.lastAvailability === 'incoming') {
+      alerts.push({ ...offer, kind: 'back_in_stock', message: `${entry.module} is back in stock at ${inStock.store} for ${price}` });
+    }
+    const wasBelow = entry.lastPrice !== undefined && entry.targetPrice !== undefined && entry.lastPrice <= entry.targetPrice;
+    if (entry.targetPrice !== undefined && inStock.price <= entry.targetPrice && !wasBelow) {
+      alerts.push({ ...offer, kind: 'price_drop', message: `${entry.module} dropped to ${price} at ${inStock.store}` });
+    }
+  }
+
+  return { alerts, entry: { ...entry, lastPrice: inStock?.price, lastAvailability: availability ?? entry.lastAvailability } };
+}
+
+export function loadWatchlist(): WatchEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(e => typeof e?.module === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeWatchlist(watchlist: WatchEntry[]): void {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(watchlist));
+}
@@ -0,0 +1,44 @@
+import { PriceSnapshot } from '@/lib/price-history';
+import { WatchEntry } from '@/lib/watchlist';
+
+// Browser calls to the Cloudflare worker, which keeps the watchlist its cron re-checks and the
+// price history it records. The worker deploys separately from the app; without
+// NEXT_PUBLIC_WORKER_URL nothing is synced. The watchlist goes through the app's own
+// /api/watchlist route, which adds the worker's token.
+
+const workerUrl = process.env.NEXT_PUBLIC_WORKER_URL?.replace(/\/+$/, '');
+// The worker's limit on modules per price history request
+const HISTORY_BATCH_SIZE = 50;
+
+// Send the page's watchlist; the worker keeps its last seen state for modules it already checks
+export async function pushWatchlist(watchlist: WatchEntry[]): Promise<void> {
+  if (!workerUrl) return;
+  const res = await fetch('/api/watchlist', {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ watchlist }),
+  });
+  if (!res.ok) {
+    const { error } = await res.json().catch(() => ({ error: undefined }));
+    throw new Error(error ?? `Watchlist sync failed with status ${res.status}`);
+  }
+}
+
+// Price history the worker recorded for the given modules, keyed by priceHistoryKey
+export async function fetchWorkerPriceHistories(modules: string[]): Promise<Record<string, PriceSnapshot[]>> {
+  if (!workerUrl) return {};
+  const unique = Array.from(new Set(modules));
+  const batches: string[][] = [];
+  for (let i = 0; i < unique.length; i += HISTORY_BATCH_SIZE) batches.push(unique.slice(i, i + HISTORY_BATCH_SIZE));
+
+  const results = await Promise.all(
+    batches.map(async batch => {
+      const query = new URLSearchParams(batch.map(module => ['module', module]));
+      const res = await fetch(`${workerUrl}/api/price-history?${query}`);
+      if (!res.ok) throw new Error(`Worker responded ${res.status}`);
+      const data = (await res.json()) as { histories?: Record<string, PriceSnapshot[]> };
+      return data.histories ?? {};
+    })
+  );
+  return Object.assign({}, ...results);
+}
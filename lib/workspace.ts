@@ -0,0 +1,119 @@
+import { normalizedSku, skuKey } from '@/lib/sku';
+import { BoardSupport, RAMModule, RAMModuleWithPrice } from '@/types/ram';
+
+// One motherboard's imported QVL
+export interface BoardQVL {
+  id: string;
+  name: string;
+  modules: RAMModule[];
+}
+
+// The same SKU can ship with different dies, and boards validate those separately
+export function workspaceKey(module: RAMModule): string {
+  return `${skuKey(module.module)}|${module.chip.trim().toLowerCase()}`;
+}
+
+function boardSupport(module: RAMModule): BoardSupport {
+  return {
+    supportedSpeed: module.supportedSpeed,
+    dimmSocketSupport: module.dimmSocketSupport,
+    oc: module.oc,
+    bios: module.bios,
+  };
+}
+
+// Default board name from an import source, e.g. "X870E-QVL.csv › Sheet1" -> "X870E-QVL"
+export function boardNameFromSource(sourceName: string): string {
+  return sourceName.split(' › ')[0].replace(/\.[a-z0-9]+$/i, '').trim() || sourceName;
+}
+
+/**
+ * Merge board QVLs into one row per module, recording which boards list it.
+ * Prices already fetched for a module are kept when the workspace changes.
+ */
+export function mergeBoards(boards: BoardQVL[], previous: RAMModuleWithPrice[] = []): RAMModuleWithPrice[] {
+  const priced = new Map<string, RAMModuleWithPrice>();
+  for (const module of previous) {
+    if (module.workspaceKey) priced.set(module.workspaceKey, module);
+  }
+
+  const merged = new Map<string, RAMModuleWithPrice>();
+  for (const board of boards) {
+    for (const module of board.modules) {
+      const key = workspaceKey(module);
+      let entry = merged.get(key);
+      if (!entry) {
+        const prev = priced.get(key);
+        entry = {
+          ...module,
+          workspaceKey: key,
+          boardSupport: {},
+          price: prev?.price,
+          currency: prev?.currency,
+          availability: prev?.availability,
+          store: prev?.store,
+          storeUrl: prev?.storeUrl,
+          lastUpdated: prev?.lastUpdated,
+          offers: prev?.offers,
+        };
+        merged.set(key, entry);
+      }
+      // A board listing the same module twice keeps its first row
+      if (entry.boardSupport && !entry.boardSupport[board.id]) {
+        entry.boardSupport[board.id] = boardSupport(module);
+      }
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+export function supportedBoardCount(module: RAMModuleWithPrice): number {
+  return Object.keys(module.boardSupport ?? {}).length;
+}
+
+// Set operations over boards, compared by normalized SKU so revisions of one kit count as the same
+export type BoardSetOperation =
+  | { kind: 'all'; boardIds: string[] }
+  | { kind: 'only'; boardId: string; boardIds: string[] }
+  | { kind: 'difference'; include: string; exclude: string };
+
+function boardSkus(board: BoardQVL): Set<string> {
+  return new Set(board.modules.map(m => normalizedSku(m.module)));
+}
+
+/**
+ * Keep the merged rows whose SKU satisfies the operation:
+ * on all of boardIds, only on boardId among boardIds, or on include but not exclude.
+ */
+export function applyBoardSetOperation(
+  modules: RAMModuleWithPrice[],
+  boards: BoardQVL[],
+  operation: BoardSetOperation
+): RAMModuleWithPrice[] {
+  const byId = new Map(boards.map(b => [b.id, boardSkus(b)] as const));
+  const skus = (id: string) => byId.get(id) ?? new Set<string>();
+
+  let matches: (sku: string) => boolean;
+  switch (operation.kind) {
+    case 'all': {
+      const sets = operation.boardIds.map(skus);
+      matches = sku => sets.length > 0 && sets.every(set => set.has(sku));
+      break;
+    }
+    case 'only': {
+      const own = skus(operation.boardId);
+      const others = operation.boardIds.filter(id => id !== operation.boardId).map(skus);
+      matches = sku => own.has(sku) && others.every(set => !set.has(sku));
+      break;
+    }
+    case 'difference': {
+      const include = skus(operation.include);
+      const exclude = skus(operation.exclude);
+      matches = sku => include.has(sku) && !exclude.has(sku);
+      break;
+    }
+  }
+
+  return modules.filter(m => matches(normalizedSku(m.module)));
+}
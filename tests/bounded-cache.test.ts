@@ -0,0 +1,34 @@
+import { test, expect } from 'bun:test';
+import { BoundedCache } from '../lib/bounded-cache';
+import { HostLimiter } from '../lib/host-limiter';
+
+test('entries expire and the least recently used go once the cache is full', () => {
+  const cache = new BoundedCache<number>(1000, 2);
+  cache.set('a', 1, 0);
+  cache.set('b', 2, 0);
+  expect(cache.get('a', 10)).toBe(1);
+  cache.set('c', 3, 20);
+  // b was the least recently read
+  expect(cache.get('b', 20)).toBeUndefined();
+  expect(cache.get('a', 20)).toBe(1);
+
+  // Writes sweep expired entries
+  cache.set('d', 4, 1500);
+  expect(cache.size).toBe(1);
+  expect(cache.get('c', 1500)).toBeUndefined();
+
+  cache.deleteIf('d', 5);
+  expect(cache.get('d', 1500)).toBe(4);
+  cache.deleteIf('d', 4);
+  expect(cache.size).toBe(0);
+});
+
+test('host slots are shared by every caller of one limiter', async () => {
+  const waits: number[] = [];
+  const limiter = new HostLimiter(500, () => 0, async ms => {
+    waits.push(ms);
+  });
+  await Promise.all([limiter.wait('www.prisjakt.nu'), limiter.wait('www.prisjakt.nu'), limiter.wait('api.prisjakt.nu')]);
+  await limiter.wait('www.prisjakt.nu');
+  expect(waits).toEqual([500, 1000]);
+});
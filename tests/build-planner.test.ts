@@ -0,0 +1,56 @@
+import { test, expect } from 'bun:test';
+import { planBuilds } from '../lib/build-planner';
+import { RAMModuleWithPrice } from '../types/ram';
+
+function kit(part: string, perStickSizeGB: number, sticks: number, price: number, ramSpeed = '6000', dimmSocketSupport = '2/4'): RAMModuleWithPrice {
+  return {
+    type: 'DDR5',
+    vendor: 'Kingston',
+    ramSpeed,
+    supportedSpeed: ramSpeed,
+    size: `${perStickSizeGB}GB`,
+    perStickSizeGB,
+    totalSizeGB: perStickSizeGB * sticks,
+    sticks,
+    module: part,
+    chip: 'Hynix M-die',
+    ssDs: 'DS',
+    rank: 'Dual',
+    xmp: 'v',
+    expo: '',
+    xmpBool: true,
+    expoBool: false,
+    dimmSocketSupport,
+    oc: '',
+    bios: '',
+    note: '',
+    price,
+    currency: 'SEK',
+  };
+}
+
+test('builds reach the capacity with one or more identical kits, cheapest first', () => {
+  const modules = [
+    kit('KF560C36BBEK2-64', 32, 2, 2400),
+    kit('KF560C36BBEK2-32', 16, 2, 1000),
+    kit('KF564C32RSK2-64', 32, 2, 2900, '6400'),
+    kit('KF552C40BBK2-32', 16, 2, 800, '5200', '2'),
+  ];
+  const plan = planBuilds(modules, { capacityGB: 64, slots: 4 });
+  expect(plan.map(o => [o.module.module, o.kits, o.totalPrice])).toEqual([
+    ['KF560C36BBEK2-32', 2, 2000],
+    ['KF560C36BBEK2-64', 1, 2400],
+    ['KF564C32RSK2-64', 1, 2900],
+  ]);
+  expect(plan[0].warnings).toHaveLength(1);
+});
+
+test('slots, speed, profile and budget narrow the options', () => {
+  const modules = [kit('KF560C36BBEK2-64', 32, 2, 2400), kit('KF560C36BBEK2-32', 16, 2, 1000), kit('KF564C32RSK2-64', 32, 2, 2900, '6400')];
+  expect(planBuilds(modules, { capacityGB: 64, slots: 2, minSpeed: 6000, budget: 3000 }).map(o => o.module.module)).toEqual([
+    'KF560C36BBEK2-64',
+    'KF564C32RSK2-64',
+  ]);
+  expect(planBuilds(modules, { capacityGB: 64, slots: 2, minSpeed: 6400 })).toHaveLength(1);
+  expect(planBuilds(modules, { capacityGB: 64, slots: 2, profile: 'expo' })).toHaveLength(0);
+});
@@ -0,0 +1,32 @@
+import { test, expect } from 'bun:test';
+import { parseCorsairVersion } from '../lib/corsair-version';
+import { inferDie } from '../lib/die-inference';
+import { matchDie } from '../lib/die-knowledge-base';
+
+test('Corsair version codes decode to maker, density and die', () => {
+  expect(parseCorsairVersion('CMH32GX5M2B6000C30 ver 5.53.13')).toEqual({
+    code: '5.53.13',
+    manufacturer: 'Hynix',
+    density: '24Gb',
+    chip: 'Hynix M-die',
+  });
+  expect(parseCorsairVersion('CMK32GX5M2B5200C40 ver 3.43.02')?.chip).toBe('SpecTek B-die');
+  expect(parseCorsairVersion('CMK32GX5M2B5200C40 ver 4.43.99')).toEqual({
+    code: '4.43.99',
+    manufacturer: 'Samsung',
+    density: '16Gb',
+    chip: undefined,
+  });
+  expect(parseCorsairVersion('CMK32GX5M2B5200C40')).toBeNull();
+});
+
+test('version codes fill vague chips and pick the die density', () => {
+  expect(inferDie('CMT64GX5M2B5600C40 ver 5.43.13', { chip: 'Hynix' })).toEqual({
+    chip: 'Hynix M-die',
+    reason: 'Corsair ver 5.43.13',
+  });
+  expect(matchDie('Hynix M-die', { generation: 'DDR5', perStickSizeGB: 32, density: '16Gb' })).toMatchObject({
+    confidence: 'confirmed',
+    die: { density: '16Gb' },
+  });
+});
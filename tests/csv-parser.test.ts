@@ -0,0 +1,138 @@
+import { test, expect } from 'bun:test';
+import {
+  buildRawTable,
+  columnFieldScore,
+  detectColumnMapping,
+  looksLikeDataRow,
+  mappingFromAssignments,
+  parseCSVData,
+  parseTableWithReport,
+  profileColumnMapping,
+} from '../lib/csv-parser';
+import { headerFingerprint, parseMappingPresets } from '../lib/mapping-presets';
+
+const qvlRows = [
+  ['DDR5', 'Hynix', '4800', '4800', '8GB', 'HMCG66MEBUA081N', 'Hynix', 'SS', '', '', '2/4', '', '', ''],
+  ['DDR5', 'Corsair', '7200', '7200', '24GB', 'CMP48GX5M2X7200C36W ver 5.53.13', 'Hynix M-die', 'SS', 'v', '', '2', 'v', '', ''],
+];
+
+test('headerless QVL rows are detected as data', () => {
+  expect(looksLikeDataRow(qvlRows[0])).toBe(true);
+  expect(looksLikeDataRow(['Type', 'Vendor', 'RAM Speed', 'Size', 'Module'])).toBe(false);
+  expect(looksLikeDataRow(['Brand', 'Model', 'Capacity', 'Speed'])).toBe(false);
+});
+
+test('headerless table gets the standard positional profile', () => {
+  const table = buildRawTable(qvlRows);
+  expect(table.profile?.id).toBe('standard-qvl');
+  expect(table.rows.length).toBe(2);
+  expect(table.rows[1].Module).toBe('CMP48GX5M2X7200C36W ver 5.53.13');
+
+  const mapping = profileColumnMapping(table.profile!, table.columns);
+  expect(mapping.vendor).toBe('Vendor');
+  expect(mapping.supportedSpeed).toBe('Supported Speed');
+  expect(mapping.dimmSocketSupport).toBe('DIMM Socket Support');
+  expect(mapping.unknown).toEqual([]);
+
+  const modules = parseCSVData(table.rows, mapping);
+  expect(modules[1].vendor).toBe('Corsair');
+  expect(modules[1].ramSpeed).toBe('7200');
+  // The blank-ish "Hynix" chip is read from the SK hynix module part number
+  expect(modules[0]).toMatchObject({ chip: 'Hynix M-die', chipSource: 'inferred' });
+  expect(modules[1].chipSource).toBe('csv');
+  expect(modules[1].chip).toBe('Hynix M-die');
+});
+
+test('a blank chip that cannot be inferred is not attributed to the QVL', () => {
+  const blank = ['DDR5', 'G.Skill', '6000', '6000', '16GB', 'F5-6000J3038F16GX2-FX5', '', 'SS', 'v', 'v', '2', '', '', ''];
+  const table = buildRawTable([qvlRows[1], blank]);
+  const modules = parseCSVData(table.rows, profileColumnMapping(table.profile!, table.columns));
+  expect(modules[1]).toMatchObject({ chip: 'Unknown', chipSource: 'missing' });
+});
+
+test('a chip given as an IC part number is normalized to its die', () => {
+  const row = ['DDR5', 'Kingston', '6000', '6000', '24GB', 'KF560C30RSK2-48', 'H5CGD8MGBDX021', 'SS', 'v', 'v', '2', '', '', ''];
+  const table = buildRawTable([qvlRows[1], row]);
+  const modules = parseCSVData(table.rows, profileColumnMapping(table.profile!, table.columns));
+  expect(modules[1]).toMatchObject({ chip: 'Hynix M-die', chipSource: 'csv' });
+});
+
+test('header rows repeated inside a headerless dump are dropped', () => {
+  const header = ['type', 'vendor', 'RAM Speed', 'Supported Speed', 'Size', 'Module', 'Chip', 'SS/DS', 'XMP', 'EXPO', 'DIMM Socket Support', 'OC', 'BIOS', 'Note'];
+  const table = buildRawTable([qvlRows[0], header, qvlRows[1]]);
+  expect(table.rows.length).toBe(2);
+});
+
+test('tables with a header row keep their own column names', () => {
+  const table = buildRawTable([
+    ['Brand', 'Model', 'Capacity', 'Speed'],
+    ['Kingston', 'FURY Beast 8GB', '8GB', '5200'],
+  ]);
+  expect(table.profile).toBeNull();
+  expect(table.columns).toEqual(['Brand', 'Model', 'Capacity', 'Speed']);
+
+  const mapping = detectColumnMapping(table.columns);
+  expect(mapping.vendor).toBe('Brand');
+  expect(mapping.module).toBe('Model');
+});
+
+test('reassigned fields rebuild the mapping and pass leftovers through', () => {
+  const columns = ['Brand', 'Model', 'Part No', 'Speed'];
+  const mapping = mappingFromAssignments({ vendor: 'Brand', module: 'Part No', ramSpeed: 'Speed' }, columns);
+  expect(mapping.module).toBe('Part No');
+  expect(mapping.unknown).toEqual(['Model']);
+  expect(columnFieldScore('vendor', 'Vendor')).toBe(100);
+  expect(columnFieldScore('vendor', 'Brand')).toBe(100);
+  expect(columnFieldScore('module', 'Speed')).toBeLessThan(50);
+});
+
+test('saved presets win over fuzzy matching for identical headers', () => {
+  const columns = ['Brand', 'Model', 'Part No', 'Speed'];
+  const [preset] = parseMappingPresets(JSON.stringify({
+    version: 1,
+    presets: [{
+      fingerprint: 'stale',
+      name: 'ASUS X670E',
+      columns,
+      mapping: mappingFromAssignments({ vendor: 'Brand', module: 'Part No' }, columns),
+      savedAt: '2026-01-01T00:00:00.000Z',
+    }],
+  }));
+  expect(preset.fingerprint).toBe(headerFingerprint(columns));
+  expect(headerFingerprint([' brand', 'MODEL', 'Part No', 'Speed'])).toBe(preset.fingerprint);
+
+  expect(detectColumnMapping(columns).module).toBe('Model');
+  expect(detectColumnMapping(columns, [preset]).module).toBe('Part No');
+  expect(detectColumnMapping([...columns, 'Extra'], [preset]).module).toBe('Model');
+});
+
+test('import report points skipped, defaulted and unrecognized rows at source lines', () => {
+  const header = ['type', 'vendor', 'RAM Speed', 'Supported Speed', 'Size', 'Module', 'Chip', 'SS/DS', 'XMP', 'EXPO', 'DIMM Socket Support', 'OC', 'BIOS', 'Note'];
+  const cells = [
+    qvlRows[0],
+    [],
+    ['DDR5', '', '6000', '6000', '16GB', 'KF560C36BBE-16', 'Hynix A-die', 'SS', '', 'v', '2', '', '', ''],
+    header,
+    ['', 'Kingston', 'fast', '', 'big', 'KF560C36BBE-32', 'Elpida', '', '', '', '2', '', '', ''],
+  ];
+  const table = buildRawTable(cells);
+  expect(table.lines).toEqual([1, 3, 5]);
+
+  const { modules, report } = parseTableWithReport(table, profileColumnMapping(table.profile!, table.columns), 'ql.csv');
+  expect(modules.length).toBe(2);
+  expect(report.totalRows).toBe(4);
+  expect(report.importedRows).toBe(2);
+
+  const at = (line: number) => report.issues.filter(issue => issue.line === line).map(issue => `${issue.kind}:${issue.field ?? ''}`);
+  expect(at(3)).toEqual(['skipped:']);
+  expect(at(4)).toEqual(['skipped:']);
+  // The unreadable size is filled in from the Kingston part number
+  expect(at(5)).toEqual([
+    'defaulted:size',
+    'unparseable:ramSpeed',
+    'defaulted:ssDs',
+    'unmatched_chip:chip',
+    'defaulted:type',
+    'defaulted:supportedSpeed',
+  ]);
+});
@@ -0,0 +1,30 @@
+import { test, expect } from 'bun:test';
+import { inferDie, isVagueChip } from '../lib/die-inference';
+
+test('dies are read from DRAM maker and Kingston server part numbers', () => {
+  expect(inferDie('HMCG88MEBUA081N', { chip: 'Hynix' })?.chip).toBe('Hynix M-die');
+  expect(inferDie('HMCG78AGBUA084N')?.chip).toBe('Hynix A-die');
+  expect(inferDie('M323R2GA3BB0-CQKOD', { chip: 'Samsung' })?.chip).toBe('Samsung B-die');
+  expect(inferDie('KSM48E40BD8KM-32HM', { chip: 'Hynix' })?.chip).toBe('Hynix M-die');
+  // A maker stated in the QVL wins over the part number
+  expect(inferDie('KSM48E40BD8KM-32HM', { chip: 'Micron' })).toBeNull();
+});
+
+test('Kingston FURY speed bins imply the die', () => {
+  expect(inferDie('KF564C32RSAK2-32', { chip: 'Hynix' })?.chip).toBe('Hynix A-die');
+  expect(inferDie('KF560C30BBEK2-64')).toMatchObject({ chip: 'Hynix A-die', reason: 'Kingston FURY speed bin' });
+  expect(inferDie('KF568C34RSK2-48')?.chip).toBe('Hynix M-die');
+  expect(inferDie('KF548C38BBK2-32')?.chip).toBe('Micron A-die');
+  // Loose bins ship with several dies
+  expect(inferDie('KF556C40BBK2-32')).toBeNull();
+  expect(inferDie('KF564C32RSAK2-32', { chip: 'Samsung' })).toBeNull();
+});
+
+test('stick size and speed narrow down vague chips', () => {
+  expect(inferDie('F5-6400J3239F24GX2-TZ5RK', { chip: 'Hynix', perStickSizeGB: 24 })?.chip).toBe('Hynix M-die');
+  expect(inferDie('KD5AGUA80-72B340J', { chip: 'Unknown', speed: 7200, perStickSizeGB: 16 })?.chip).toBe('Hynix A-die');
+  expect(inferDie('KF552C40BBK2-32', { chip: 'Micron', speed: 5200, perStickSizeGB: 16 })).toBeNull();
+  expect(inferDie('F5-6000J3040G32GX2-TZ5K', { chip: 'Hynix', generation: 'DDR4', perStickSizeGB: 24 })).toBeNull();
+  expect(isVagueChip('Hynix')).toBe(true);
+  expect(isVagueChip('Samsung B-die')).toBe(false);
+});
@@ -0,0 +1,48 @@
+import { test, expect } from 'bun:test';
+import { findDieByIcPartNumber, getDieInfo, identifyDie, matchDie, parseDieKnowledgeBase } from '../lib/die-knowledge-base';
+
+test('chip descriptions are identified by manufacturer, revision, generation and density', () => {
+  expect(identifyDie('Hynix A-die')).toEqual({ manufacturer: 'Hynix', revision: 'A', generation: null, density: null });
+  expect(identifyDie('Micron-B')).toEqual({ manufacturer: 'Micron', revision: 'B', generation: null, density: null });
+  expect(identifyDie('SK hynix CJR (DDR4)')).toEqual({ manufacturer: 'Hynix', revision: 'C', generation: 'DDR4', density: null });
+  expect(identifyDie('Hynix M-die 24Gb')).toEqual({ manufacturer: 'Hynix', revision: 'M', generation: null, density: '24Gb' });
+  expect(identifyDie('SpecTek Y4CA')).toMatchObject({ manufacturer: 'SpecTek', revision: 'Y4CA' });
+  expect(identifyDie('Hynix (unknown)')).toMatchObject({ manufacturer: 'Hynix', revision: null });
+});
+
+test('lookups match generation and density instead of substrings', () => {
+  expect(getDieInfo('Samsung B-die', { generation: 'DDR4' })?.dieType).toBe('Samsung B-Die (DDR4)');
+  expect(getDieInfo('Samsung B-die', { generation: 'DDR5' })?.dieType).toBe('Samsung B-Die (DDR5)');
+  expect(getDieInfo('Hynix M-die', { perStickSizeGB: 24 })?.density).toBe('24Gb');
+  expect(getDieInfo('Hynix M-die', { perStickSizeGB: 16 })?.density).toBe('16Gb');
+  expect(getDieInfo('Micron (unknown)')?.dieType).toBe('Micron (DDR5)');
+  expect(getDieInfo('Unknown')?.performance).toBe('Unknown');
+  // "A" alone used to substring-match the first entry containing an "a"
+  expect(getDieInfo('A')).toBeNull();
+  expect(getDieInfo('Samsung Q-die')).toBeNull();
+});
+
+test('matches report whether the die was confirmed or only probable', () => {
+  expect(matchDie('Samsung B-die', { generation: 'DDR5' })).toMatchObject({ confidence: 'confirmed', assumptions: [] });
+  expect(matchDie('Hynix M-die', { generation: 'DDR5', perStickSizeGB: 24 }).confidence).toBe('confirmed');
+  expect(matchDie('Hynix M-die', { generation: 'DDR5', perStickSizeGB: 32 })).toMatchObject({
+    confidence: 'probable',
+    assumptions: ['16Gb density assumed'],
+  });
+  expect(matchDie('Hynix', { generation: 'DDR5' })).toMatchObject({ confidence: 'probable', assumptions: ['revision not stated'] });
+  expect(matchDie('Samsung B-die').assumptions).toContain('generation assumed to be DDR5');
+  expect(matchDie('Unknown').confidence).toBe('none');
+  expect(matchDie('Nanya Q-die', { generation: 'DDR5' })).toMatchObject({ die: null, confidence: 'none' });
+});
+
+test('IC part numbers map to dies and malformed knowledge bases are rejected', () => {
+  expect(findDieByIcPartNumber('H5CG48AGBDX018N')?.dieType).toBe('Hynix A-Die (DDR5)');
+  expect(findDieByIcPartNumber('K4A8G085WB-BCPB')?.dieType).toBe('Samsung B-Die (DDR4)');
+  expect(() => parseDieKnowledgeBase({ dies: 'nope' })).toThrow('Not a die knowledge base file');
+});
+
+test('chip text carrying an IC part number is identified by it', () => {
+  expect(identifyDie('H5CGD8MGBDX021')).toEqual({ manufacturer: 'Hynix', revision: 'M', generation: 'DDR5', density: '24Gb' });
+  expect(matchDie('SK hynix H5CG48AGBDX018N')).toMatchObject({ confidence: 'confirmed', die: { dieType: 'Hynix A-Die (DDR5)' } });
+  expect(matchDie('Samsung K4A8G085WB-BCPB').die?.dieType).toBe('Samsung B-Die (DDR4)');
+});
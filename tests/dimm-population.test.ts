@@ -0,0 +1,75 @@
+import { test, expect } from 'bun:test';
+import { adviseModule, filterByPopulation, parseDimmSocketSupport, validatedPopulations } from '../lib/dimm-population';
+import { findImcProfile } from '../lib/imc-profiles';
+import { RAMModule } from '../types/ram';
+
+function module(part: string, dimmSocketSupport: string, perStickSizeGB: number, rank: 'Single' | 'Dual', ramSpeed = '6000'): RAMModule {
+  return {
+    type: 'DDR5',
+    vendor: 'Kingston',
+    ramSpeed,
+    supportedSpeed: ramSpeed,
+    size: `${perStickSizeGB}GB`,
+    perStickSizeGB,
+    module: part,
+    chip: 'Hynix M-die',
+    ssDs: rank === 'Single' ? 'SS' : 'DS',
+    rank,
+    xmp: 'v',
+    expo: '',
+    dimmSocketSupport,
+    oc: '',
+    bios: '',
+    note: '',
+  };
+}
+
+test('DIMM socket support values parse into DIMM counts', () => {
+  expect(parseDimmSocketSupport('2/4')).toEqual([2, 4]);
+  expect(parseDimmSocketSupport('4, 2, 1')).toEqual([1, 2, 4]);
+  expect(parseDimmSocketSupport('2')).toEqual([2]);
+  expect(parseDimmSocketSupport('')).toEqual([]);
+});
+
+test('modules are filtered to the target population and warned about 2DPC', () => {
+  const modules = [
+    module('KF560C36BBEK2-64', '2/4', 32, 'Dual'),
+    module('KF560C36BBEK2-32', '2', 16, 'Single'),
+    module('KF552C40BBK4-128', '4', 32, 'Dual', '5200'),
+  ];
+  const target = { dimms: 4, capacityGB: 128, rank: 'Dual' as const };
+  expect(filterByPopulation(modules, target).map(m => m.module)).toEqual(['KF560C36BBEK2-64', 'KF552C40BBK4-128']);
+  expect(adviseModule(modules[0], target).warnings).toEqual([
+    'Rated 6000 MT/s; dual-rank at 2DPC typically runs 5600 MT/s or less',
+  ]);
+  expect(adviseModule(modules[2], target).warnings).toEqual([]);
+  expect(adviseModule(modules[0], { dimms: 2 }).warnings).toEqual([]);
+});
+
+test('2DPC ceilings come from the picked IMC profile', () => {
+  const kit = module('KF552C40BBK4-128', '4', 32, 'Dual', '5200');
+  expect(adviseModule(kit, { dimms: 4 }, findImcProfile('am5-zen4')).warnings).toEqual([
+    'Rated 5200 MT/s; dual-rank at 2DPC on AM5 Ryzen 7000 (Zen 4) typically runs 4800 MT/s or less',
+  ]);
+  expect(adviseModule(kit, { dimms: 4 }, findImcProfile('lga1700')).warnings).toEqual([]);
+});
+
+test('populations are validated per planned board', () => {
+  const kit = {
+    ...module('KF560C36BBEK2-64', '2/4', 32, 'Dual'),
+    boardSupport: {
+      x870e: { supportedSpeed: '6000', dimmSocketSupport: '2/4', oc: '', bios: '' },
+      b650: { supportedSpeed: '6000', dimmSocketSupport: '2', oc: '', bios: '' },
+      z790: { supportedSpeed: '6000', dimmSocketSupport: '', oc: '', bios: '' },
+    },
+  };
+  expect(validatedPopulations(kit, ['x870e'])).toEqual([2, 4]);
+  expect(validatedPopulations(kit, ['b650'])).toEqual([2]);
+  expect(validatedPopulations(kit)).toEqual([2]);
+  expect(validatedPopulations(kit, ['z790'])).toEqual([]);
+  expect(validatedPopulations(kit, ['x570'])).toEqual([]);
+
+  expect(adviseModule(kit, { dimms: 4, boardIds: ['x870e'] }).validated).toBe(true);
+  expect(adviseModule(kit, { dimms: 4, boardIds: ['b650'] }).validated).toBe(false);
+  expect(adviseModule(kit, { dimms: 4 }).validated).toBe(false);
+});
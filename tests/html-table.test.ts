@@ -0,0 +1,27 @@
+import { test, expect } from 'bun:test';
+import { extractHtmlTables, largestTable } from '../lib/html-table';
+
+const page = `
+  <table class="nav"><tr><td><a href="/">Home</a></td></tr></table>
+  <table>
+    <thead><tr><th>Vendor</th><th>Model</th><th colspan="2">Support</th></tr></thead>
+    <tr><td>Kingston</td><td><b>KF560C36BBEK2-32</b></td><td>&#10004;</td><td>2/4</td></tr>
+    <tr><td>G.Skill&nbsp;</td><td>F5-6000J3038F16GX2<br>FX5</td><td>&amp;</td><td></td></tr>
+    <tr><td></td><td></td></tr>
+  </table>`;
+
+test('tables are extracted with tags stripped, entities decoded and colspans kept aligned', () => {
+  const tables = extractHtmlTables(page);
+  expect(tables).toHaveLength(2);
+  expect(tables[1]).toEqual([
+    ['Vendor', 'Model', 'Support', ''],
+    ['Kingston', 'KF560C36BBEK2-32', '✔', '2/4'],
+    ['G.Skill', 'F5-6000J3038F16GX2 FX5', '&', ''],
+  ]);
+  expect(extractHtmlTables('<p>No tables</p>')).toEqual([]);
+});
+
+test('the largest table is the one with the most filled cells', () => {
+  expect(largestTable(extractHtmlTables(page))?.[1][0]).toBe('Kingston');
+  expect(largestTable([])).toBeNull();
+});
@@ -0,0 +1,37 @@
+import { test, expect } from 'bun:test';
+import { expectedSpeed, findImcProfile } from '../lib/imc-profiles';
+import { RAMModule } from '../types/ram';
+
+function module(ramSpeed: string, rank: 'Single' | 'Dual', type = 'DDR5'): RAMModule {
+  return {
+    type,
+    vendor: 'G.Skill',
+    ramSpeed,
+    supportedSpeed: ramSpeed,
+    size: '16GB',
+    module: 'F5-7200J3445G16GX2-TZ5RK',
+    chip: 'Hynix A-die',
+    ssDs: rank === 'Single' ? 'SS' : 'DS',
+    rank,
+    xmp: 'v',
+    expo: '',
+    dimmSocketSupport: '2/4',
+    oc: '',
+    bios: '',
+    note: '',
+  };
+}
+
+test('expected speed caps the rated speed at the platform ceiling', () => {
+  const zen4 = findImcProfile('am5-zen4')!;
+  expect(expectedSpeed(module('7200', 'Single'), zen4)).toBe(6400);
+  expect(expectedSpeed(module('5600', 'Single'), zen4)).toBe(5600);
+  expect(expectedSpeed(module('6000', 'Dual'), zen4, 4)).toBe(4800);
+  expect(expectedSpeed(module('8000', 'Single'), findImcProfile('lga1851')!)).toBe(8000);
+});
+
+test('platforms without the memory generation give no expected speed', () => {
+  expect(expectedSpeed(module('3600', 'Single', 'DDR4'), findImcProfile('am5-zen5')!)).toBeUndefined();
+  expect(expectedSpeed(module('4000', 'Dual', 'DDR4'), findImcProfile('lga1700')!)).toBe(3600);
+  expect(findImcProfile(null)).toBeUndefined();
+});
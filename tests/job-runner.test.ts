@@ -0,0 +1,107 @@
+import { test, expect } from 'bun:test';
+import { JobRunner, JobStatus, formatEta } from '../lib/job-runner';
+
+// Jobs that resolve when the test says so
+function deferredJobs() {
+  const pending = new Map<string, (found: boolean) => void>();
+  const run = (item: string, signal: AbortSignal) =>
+    new Promise<boolean>((resolve, reject) => {
+      pending.set(item, resolve);
+      signal.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+  return { pending, run };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+test('runs at most `concurrency` jobs at once and reports per-row status', async () => {
+  const { pending, run } = deferredJobs();
+  const statuses: Record<string, JobStatus> = {};
+  const runner = new JobRunner(['a', 'b', 'c', 'a'], {
+    keyOf: item => item,
+    run,
+    statusOf: found => (found ? 'found' : 'not_found'),
+    concurrency: 2,
+    hostIntervalMs: 0,
+    onJobUpdate: (key, status) => (statuses[key] = status),
+  });
+
+  const done = runner.start();
+  await tick();
+  expect(Array.from(pending.keys())).toEqual(['a', 'b']);
+  expect(statuses).toEqual({ a: 'searching', b: 'searching', c: 'queued' });
+
+  pending.get('a')?.(true);
+  await tick();
+  pending.get('b')?.(false);
+  pending.get('c')?.(true);
+  const progress = await done;
+  expect(progress).toMatchObject({ state: 'done', total: 3, completed: 3 });
+  expect(statuses).toEqual({ a: 'found', b: 'not_found', c: 'found' });
+});
+
+test('starts to the same host are spaced out', async () => {
+  const waits: number[] = [];
+  const runner = new JobRunner(['a', 'b', 'c', 'd'], {
+    keyOf: item => item,
+    run: async () => true,
+    concurrency: 4,
+    hostOf: item => (item === 'd' ? 'other.example' : 'prisjakt.nu'),
+    hostIntervalMs: 1000,
+    now: () => 0,
+    sleep: async ms => {
+      waits.push(ms);
+    },
+  });
+  await runner.start();
+  // a and d start at once on their own hosts; b and c wait for prisjakt.nu slots
+  expect(waits).toEqual([1000, 2000]);
+});
+
+test('pause holds new jobs, cancel aborts in-flight ones and leaves the rest queued', async () => {
+  const { pending, run } = deferredJobs();
+  const runner = new JobRunner(['a', 'b', 'c'], { keyOf: item => item, run, concurrency: 1, hostIntervalMs: 0 });
+  const done = runner.start();
+  await tick();
+
+  runner.pause();
+  pending.get('a')?.(true);
+  await tick();
+  expect(pending.has('b')).toBe(false);
+  expect(runner.progress()).toMatchObject({ state: 'paused', completed: 1 });
+
+  runner.resume();
+  await tick();
+  expect(pending.has('b')).toBe(true);
+
+  runner.cancel();
+  const progress = await done;
+  expect(progress.state).toBe('cancelled');
+  expect(progress.counts).toMatchObject({ found: 1, queued: 2, error: 0 });
+});
+
+test('ETA is formatted in minutes and seconds', () => {
+  expect(formatEta(45_000)).toBe('45 s');
+  expect(formatEta(200_000)).toBe('3 min 20 s');
+});
+
+test('batches report items as they resolve and unreported items fail', async () => {
+  const statuses: Record<string, JobStatus> = {};
+  const batches: string[][] = [];
+  const runner = new JobRunner<string, string[]>(['a', 'b', 'c'], {
+    keyOf: item => item,
+    runBatch: async (items, _signal, report) => {
+      batches.push(items);
+      if (items.includes('a')) report('a', ['offer']);
+      if (items.includes('c')) report('c', new Error('blocked'));
+    },
+    batchSize: 2,
+    concurrency: 1,
+    hostIntervalMs: 0,
+    onJobUpdate: (key, status) => (statuses[key] = status),
+  });
+  const progress = await runner.start();
+  expect(batches).toEqual([['a', 'b'], ['c']]);
+  expect(statuses).toEqual({ a: 'found', b: 'error', c: 'error' });
+  expect(progress.counts).toMatchObject({ found: 1, error: 2 });
+});
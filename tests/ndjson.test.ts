@@ -0,0 +1,18 @@
+import { test, expect } from 'bun:test';
+import { ndjsonLine, readNdjson } from '../lib/ndjson';
+
+test('lines split across chunks are parsed once complete', async () => {
+  const text = ndjsonLine({ moduleNumber: 'A', requested: ['A'] }) + ndjsonLine({ moduleNumber: 'B', requested: ['B ver 1.0'] });
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(text.slice(0, 20)));
+      controller.enqueue(encoder.encode(text.slice(20)));
+      controller.close();
+    },
+  });
+
+  const lines: { moduleNumber: string }[] = [];
+  await readNdjson<{ moduleNumber: string }>(body, line => lines.push(line));
+  expect(lines.map(l => l.moduleNumber)).toEqual(['A', 'B']);
+});
@@ -0,0 +1,23 @@
+import { test, expect } from 'bun:test';
+import { bestOffer, sortOffers, withOffers } from '../lib/offers';
+import { PrisjaktProduct, RAMModuleWithPrice } from '../types/ram';
+
+function offer(store: string, price: number, availability: PrisjaktProduct['availability']): PrisjaktProduct {
+  return { id: store, name: 'Kingston FURY Beast 32GB', price, currency: 'SEK', store, storeUrl: `https://${store}.example`, availability };
+}
+
+const offers = [offer('Inet', 1290, 'in_stock'), offer('Komplett', 1190, 'not_available'), offer('Webhallen', 1349, 'in_stock')];
+
+test('the best offer is the cheapest in stock and every offer is kept', () => {
+  expect(bestOffer(offers)?.store).toBe('Inet');
+  expect(bestOffer([offers[1]])?.store).toBe('Komplett');
+
+  const module = { module: 'KF560C36BBEK2-32' } as RAMModuleWithPrice;
+  expect(withOffers(module, offers)).toMatchObject({ price: 1290, store: 'Inet', offers });
+  expect(withOffers(module, [])).toMatchObject({ price: undefined, store: 'Not Found', offers: [] });
+});
+
+test('offers sort by price and filter to in stock', () => {
+  expect(sortOffers(offers).map(o => o.store)).toEqual(['Komplett', 'Inet', 'Webhallen']);
+  expect(sortOffers(offers, 'desc', true).map(o => o.store)).toEqual(['Webhallen', 'Inet']);
+});
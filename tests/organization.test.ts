@@ -0,0 +1,40 @@
+import { test, expect } from 'bun:test';
+import { deriveOrganization, describeOrganization } from '../lib/organization';
+import { RAMModule } from '../types/ram';
+
+function module(perStickSizeGB: number, ssDs: 'SS' | 'DS', chip: string): RAMModule {
+  return {
+    type: 'DDR5',
+    vendor: 'G.Skill',
+    ramSpeed: '6000',
+    supportedSpeed: '6000',
+    size: `${perStickSizeGB}GB`,
+    perStickSizeGB,
+    module: 'F5-6000J3038F16GX2-TZ5N',
+    chip,
+    ssDs,
+    rank: ssDs === 'SS' ? 'Single' : 'Dual',
+    xmp: '',
+    expo: '',
+    dimmSocketSupport: '2,4',
+    oc: '',
+    bios: '',
+    note: '',
+  };
+}
+
+test('ranks, IC density and width follow from capacity, SS/DS and die', () => {
+  expect(deriveOrganization(module(48, 'DS', 'Hynix M-die'))).toEqual({ ranks: 2, density: '24Gb', width: 'x8', chips: 16 });
+  expect(deriveOrganization(module(24, 'SS', 'Hynix M-die'))).toEqual({ ranks: 1, density: '24Gb', width: 'x8', chips: 8 });
+  expect(deriveOrganization(module(32, 'DS', 'Hynix A-die'))).toEqual({ ranks: 2, density: '16Gb', width: 'x8', chips: 16 });
+  expect(deriveOrganization(module(8, 'SS', 'Samsung'))).toEqual({ ranks: 1, density: '16Gb', width: 'x16', chips: 4 });
+  expect(describeOrganization({ rank: 'Dual', icDensity: '24Gb', icWidth: 'x8' })).toBe('2 ranks of 8 × 24Gb x8 ICs');
+});
+
+test('combinations no listed density fits are flagged', () => {
+  expect(deriveOrganization(module(32, 'SS', 'Hynix A-die')).inconsistency).toBe(
+    '32GB single-rank needs 32Gb ICs; Hynix A-die comes in 16Gb/24Gb'
+  );
+  expect(deriveOrganization(module(48, 'SS', 'Hynix')).inconsistency).toBe('48GB single-rank does not fit any DDR5 IC density');
+  expect(deriveOrganization(module(16, 'SS', 'Micron')).inconsistency).toBeUndefined();
+});
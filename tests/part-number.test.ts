@@ -0,0 +1,57 @@
+import { test, expect } from 'bun:test';
+import { buildRawTable, parseTableWithReport, profileColumnMapping } from '../lib/csv-parser';
+import { decodePartNumber } from '../lib/part-number';
+
+test('kit SKUs of the major vendors are decoded', () => {
+  expect(decodePartNumber('KF560C36BBEAK2-32', 'Kingston')).toEqual({
+    vendor: 'Kingston',
+    generation: 'DDR5',
+    speed: 6000,
+    casLatency: 36,
+    series: 'FURY Beast',
+    color: 'Black',
+    rgb: true,
+    sticks: 2,
+    totalSizeGB: 32,
+    perStickSizeGB: 16,
+  });
+  expect(decodePartNumber('CMK32GX5M2B5600C36W ver 5.53.13')).toMatchObject({
+    vendor: 'Corsair',
+    speed: 5600,
+    casLatency: 36,
+    series: 'Vengeance',
+    color: 'White',
+    sticks: 2,
+    perStickSizeGB: 16,
+  });
+  expect(decodePartNumber('F5-6000J3636F16GX2-TZ5RK', 'G.Skill')).toMatchObject({
+    speed: 6000,
+    casLatency: 36,
+    series: 'Trident Z5 RGB',
+    color: 'Black',
+    sticks: 2,
+    totalSizeGB: 32,
+  });
+  expect(decodePartNumber('FF3D532G6000HC38ADC01', 'Team')).toMatchObject({
+    speed: 6000,
+    casLatency: 38,
+    series: 'T-Force Delta RGB',
+    sticks: 2,
+    perStickSizeGB: 16,
+  });
+  expect(decodePartNumber('AX5U6000C3016G-DCLARBK', 'ADATA')).toBeNull();
+});
+
+test('decoded part numbers fill and cross-check QVL rows', () => {
+  const table = buildRawTable([
+    ['DDR5', 'Corsair', '6000', '6000', '', 'CMH32GX5M2E6000C36 ver 5.53.13', 'Hynix M', 'SS', 'v', '', '2,4', '', '', ''],
+    ['DDR5', 'Kingston', '5600', '5600', '16GB', 'KF560C36BBEK2-32', 'Hynix M', 'SS', '', 'v', '2,4', '', '', ''],
+  ]);
+  const { modules, report } = parseTableWithReport(table, profileColumnMapping(table.profile!, table.columns));
+
+  expect(modules[0]).toMatchObject({ perStickSizeGB: 16, totalSizeGB: 32, sticks: 2, casLatency: 36, rgb: true });
+  expect(report.issues.filter(issue => issue.line === 1).map(issue => `${issue.kind}:${issue.field}`)).toEqual(['defaulted:size']);
+  expect(report.issues.filter(issue => issue.kind === 'mismatch')).toMatchObject([
+    { line: 2, field: 'ramSpeed', value: '6000' },
+  ]);
+});
@@ -0,0 +1,43 @@
+import { test, expect } from 'bun:test';
+import { textItemsToRows, type PositionedText } from '../lib/pdf-table';
+
+// Lay out a row of cells at fixed column positions, the way a PDF table renders
+function row(y: number, cells: string[], page = 1): PositionedText[] {
+  const columns = [40, 90, 160, 330, 390];
+  return cells
+    .map((text, i) => ({ text, x: columns[i], y, width: text.length * 5, height: 8, page }))
+    .filter(item => item.text !== '');
+}
+
+test('text runs are grouped into rows and aligned to columns', () => {
+  const items: PositionedText[] = [
+    { text: 'ROG STRIX X870E-E Memory QVL', x: 40, y: 800, width: 160, height: 12, page: 1 },
+    ...row(760, ['Vendor', 'Model', 'Part No.', 'Size', 'Speed']),
+    ...row(745, ['Kingston', 'FURY', 'KF560C36BBEK2-32', '16GB', '6000']),
+    ...row(730, ['G.Skill', '', 'F5-6000J3036F16GX2-TZ5N', '16GB', '6000']),
+    { text: 'Page 1 of 2', x: 280, y: 30, width: 50, height: 8, page: 1 },
+    ...row(760, ['Corsair', 'Vengeance', 'CMK32GX5M2B5600C36', '16GB', '5600'], 2),
+  ];
+
+  const rows = textItemsToRows(items);
+  expect(rows).toEqual([
+    ['Vendor', 'Model', 'Part No.', 'Size', 'Speed'],
+    ['Kingston', 'FURY', 'KF560C36BBEK2-32', '16GB', '6000'],
+    ['G.Skill', '', 'F5-6000J3036F16GX2-TZ5N', '16GB', '6000'],
+    ['Corsair', 'Vengeance', 'CMK32GX5M2B5600C36', '16GB', '5600'],
+  ]);
+});
+
+test('runs split inside one cell are merged back together', () => {
+  const items: PositionedText[] = [
+    ...row(500, ['Vendor', 'Model', 'Part No.', 'Size', 'Speed']),
+    { text: 'Team', x: 40, y: 485, width: 20, height: 8, page: 1 },
+    { text: 'T-Force', x: 90, y: 485, width: 30, height: 8, page: 1 },
+    { text: 'FF3D532G', x: 160, y: 485, width: 40, height: 8, page: 1 },
+    { text: '6000HC38ADC01', x: 200.5, y: 485, width: 60, height: 8, page: 1 },
+    { text: '16GB', x: 330, y: 485, width: 20, height: 8, page: 1 },
+    { text: '6000', x: 390, y: 485, width: 20, height: 8, page: 1 },
+  ];
+
+  expect(textItemsToRows(items)[1][2]).toBe('FF3D532G6000HC38ADC01');
+});
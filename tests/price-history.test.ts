@@ -0,0 +1,40 @@
+import { test, expect } from 'bun:test';
+import { appendSnapshot, lowestSince, mergePriceHistories, priceHistoryKey } from '../lib/price-history';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2025, 5, 1);
+
+test('snapshots are kept oldest first, deduplicated within the hour and pruned after a year', () => {
+  let history = appendSnapshot([], { at: now - 400 * DAY, price: 1500 });
+  history = appendSnapshot(history, { at: now - 10 * DAY, price: 1200 });
+  history = appendSnapshot(history, { at: now - 10 * 60 * 1000, price: 1300 });
+  history = appendSnapshot(history, { at: now, price: 1290 });
+  expect(history.map(s => s.price)).toEqual([1200, 1290]);
+});
+
+test('lowest price within a window', () => {
+  const history = [
+    { at: now - 60 * DAY, price: 999 },
+    { at: now - 20 * DAY, price: 1190 },
+    { at: now, price: 1290 },
+  ];
+  expect(lowestSince(history, 30, now)?.price).toBe(1190);
+  expect(lowestSince(history, 90, now)?.price).toBe(999);
+  expect(lowestSince([], 30, now)).toBeUndefined();
+  expect(priceHistoryKey('KF560C36BBEK2-32')).toBe(priceHistoryKey('kf560c36bbek2-32'));
+});
+
+test('worker snapshots are merged into the browser history by time', () => {
+  const a = priceHistoryKey('KF560C36BBEK2-32');
+  const b = priceHistoryKey('CMK64GX5M2B6000C30');
+  const local = { [a]: [{ at: now - 2 * DAY, price: 1290 }, { at: now, price: 1190 }] };
+  const remote = {
+    [a]: [{ at: now - DAY, price: 1250, availability: 'in_stock' as const }, { at: now, price: 1190 }],
+    [b]: [{ at: now, price: 1990 }],
+  };
+
+  const merged = mergePriceHistories(local, remote);
+  expect(merged[a].map(s => s.price)).toEqual([1290, 1250, 1190]);
+  expect(merged[b]).toEqual([{ at: now, price: 1990 }]);
+  expect(local[a]).toHaveLength(2);
+});
@@ -1,12 +1,8 @@
 import { test, expect } from 'bun:test';
 import { scrapePrisjaktSearch, scrapePrisjaktProduct } from '../lib/prisjakt-scraper';
+import { cleanProductName } from '../lib/sku';
 import type { PrisjaktProduct } from '../types/ram';
 
-// Helper function to clean product names (duplicated from scraper for testing)
-function cleanProductName(name: string): string {
-  return name.replace(/\s+ver\s+[\d.]+/gi, '').trim();
-}
-
 // Integration tests; requires network access
 
 test('clean product name removes version numbers', () => {
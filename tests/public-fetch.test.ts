@@ -0,0 +1,115 @@
+import { test, expect, afterEach } from 'bun:test';
+import { LookupAddress } from 'node:dns';
+import { PublicFetchError, fetchPublic, isAllowedUrl, isPrivateAddress, publicLookup } from '../lib/public-fetch';
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+function respondWith(handler: (url: string, init?: RequestInit & { dispatcher?: unknown }) => Response) {
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => handler(String(input), init)) as typeof fetch;
+}
+
+// Runs a lookup the way a connection does and returns what it was given
+function lookupWith(resolve: (host: string) => Promise<LookupAddress[]>, all: boolean) {
+  return new Promise<{ error: Error | null; address: string | LookupAddress[] }>(resolve_ => {
+    publicLookup(resolve)('qvl.example', { all }, (error, address) => resolve_({ error, address }));
+  });
+}
+
+test('private, loopback, link-local and mapped addresses are rejected', () => {
+  for (const ip of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1']) {
+    expect(isPrivateAddress(ip)).toBe(true);
+  }
+  expect(isPrivateAddress('93.184.215.14')).toBe(false);
+  expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+  expect(isPrivateAddress('::ffff:5db8:d70e')).toBe(false);
+
+  expect(isAllowedUrl(new URL('https://93.184.215.14/qvl'))).toBe(true);
+  expect(isAllowedUrl(new URL('http://[::1]/'))).toBe(false);
+  expect(isAllowedUrl(new URL('http://localhost:3000/'))).toBe(false);
+  expect(isAllowedUrl(new URL('file:///etc/passwd'))).toBe(false);
+});
+
+test('IPv4 carried in IPv6 addresses is checked as IPv4', () => {
+  // The URL parser rewrites ::ffff:127.0.0.1 to the hex form
+  expect(new URL('http://[::ffff:127.0.0.1]/').hostname).toBe('[::ffff:7f00:1]');
+  for (const url of [
+    'http://[::ffff:127.0.0.1]/',
+    'http://[::ffff:169.254.169.254]/',
+    'http://[::ffff:a00:1]/',
+    'http://[::127.0.0.1]/',
+    'http://[::7f00:1]/',
+    'http://[64:ff9b::a9fe:a9fe]/',
+    'http://[64:ff9b::192.168.0.1]/',
+    'http://[::]/',
+  ]) {
+    expect(isAllowedUrl(new URL(url))).toBe(false);
+  }
+  expect(isAllowedUrl(new URL('http://[::ffff:93.184.215.14]/'))).toBe(true);
+  expect(isAllowedUrl(new URL('http://[64:ff9b::5db8:d70e]/'))).toBe(true);
+});
+
+test('the connection lookup refuses private answers on every resolution', async () => {
+  // A rebinding server answers publicly first and with loopback afterwards
+  const answers = [[{ address: '93.184.215.14', family: 4 }], [{ address: '127.0.0.1', family: 4 }]];
+  const rebinding = async () => answers.shift() ?? [];
+
+  const first = await lookupWith(rebinding, false);
+  expect(first).toEqual({ error: null, address: '93.184.215.14' });
+  const second = await lookupWith(rebinding, false);
+  expect(second.error).toBeInstanceOf(PublicFetchError);
+
+  const mixed = async () => [{ address: '93.184.215.14', family: 4 }, { address: '::ffff:a9fe:a9fe', family: 6 }];
+  expect((await lookupWith(mixed, true)).error).toBeInstanceOf(PublicFetchError);
+  const publicOnly = async () => [{ address: '93.184.215.14', family: 4 }];
+  expect(await lookupWith(publicOnly, true)).toEqual({ error: null, address: [{ address: '93.184.215.14', family: 4 }] });
+});
+
+test('every hop connects through the checking lookup', async () => {
+  const dispatchers: unknown[] = [];
+  respondWith((url, init) => {
+    dispatchers.push(init?.dispatcher);
+    return url.endsWith('/final') ? new Response('a,b') : Response.redirect('https://qvl.example/final', 302);
+  });
+  await fetchPublic(new URL('https://qvl.example/start'), { maxBytes: 1000 });
+  expect(dispatchers).toHaveLength(2);
+  expect(dispatchers[0]).toBeDefined();
+  expect(dispatchers[1]).toBe(dispatchers[0]);
+
+  respondWith(() => {
+    throw Object.assign(new TypeError('fetch failed'), { cause: new PublicFetchError('Only public http(s) URLs can be imported', 400) });
+  });
+  await expect(fetchPublic(new URL('https://rebound.example/'), { maxBytes: 1000 })).rejects.toMatchObject({ status: 400 });
+});
+
+test('every redirect hop is checked and hops are capped', async () => {
+  respondWith(() => new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } }));
+  await expect(fetchPublic(new URL('https://93.184.215.14/qvl'), { maxBytes: 1000 })).rejects.toMatchObject({ status: 400 });
+
+  respondWith(url => new Response(null, { status: 301, headers: { location: `${url}x` } }));
+  await expect(fetchPublic(new URL('https://93.184.215.14/'), { maxBytes: 1000, maxRedirects: 2 })).rejects.toThrow(
+    'Too many redirects'
+  );
+
+  respondWith(url =>
+    url.endsWith('/final') ? new Response('a,b\n1,2', { headers: { 'content-type': 'text/csv' } }) : Response.redirect('https://93.184.215.14/final', 302)
+  );
+  const result = await fetchPublic(new URL('https://93.184.215.14/start'), { maxBytes: 1000 });
+  expect(result.url.pathname).toBe('/final');
+  expect(new TextDecoder().decode(result.body)).toBe('a,b\n1,2');
+});
+
+test('a streamed body without a length is cut off at the size limit', async () => {
+  respondWith(() => {
+    const chunk = new Uint8Array(400);
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(chunk);
+      },
+    });
+    return new Response(body);
+  });
+  await expect(fetchPublic(new URL('https://93.184.215.14/big'), { maxBytes: 1000 })).rejects.toMatchObject({ status: 413 });
+});
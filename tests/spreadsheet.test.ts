@@ -0,0 +1,41 @@
+import { test, expect } from 'bun:test';
+import * as XLSX from 'xlsx';
+import { buildRawTable } from '../lib/csv-parser';
+import { delimiterForFile, getImportFileKind, readWorkbook, sheetToCells, summarizeSheets } from '../lib/spreadsheet';
+
+function workbookBuffer(): ArrayBuffer {
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet([['Board info'], ['ROG STRIX X870E-E']]), 'Info');
+  const qvl = XLSX.utils.aoa_to_sheet([
+    ['Vendor', 'Part No.', 'Size', 'Speed'],
+    ['Kingston', 'KF560C36BBEK2-32', '16GB', 6000],
+    [],
+    ['G.Skill', 'F5-6000J3036F16GX2-TZ5N', '16GB', 6000],
+  ]);
+  XLSX.utils.book_append_sheet(book, qvl, 'DDR5 QVL');
+  return XLSX.write(book, { type: 'array', bookType: 'xlsx' });
+}
+
+test('file kinds are picked by extension', () => {
+  expect(getImportFileKind('QVL.XLSX')).toBe('spreadsheet');
+  expect(getImportFileKind('qvl.ods')).toBe('spreadsheet');
+  expect(getImportFileKind('qvl.tsv')).toBe('delimited');
+  expect(getImportFileKind('qvl.pdf')).toBe('pdf');
+  expect(getImportFileKind('qvl.docx')).toBeNull();
+  expect(delimiterForFile('qvl.tsv')).toBe('\t');
+  expect(delimiterForFile('qvl.csv')).toBeUndefined();
+});
+
+test('workbook sheets become raw cells with row numbers preserved', () => {
+  const workbook = readWorkbook(workbookBuffer());
+  expect(summarizeSheets(workbook)).toEqual([
+    { name: 'Info', rowCount: 2 },
+    { name: 'DDR5 QVL', rowCount: 4 },
+  ]);
+
+  const table = buildRawTable(sheetToCells(workbook, 'DDR5 QVL'));
+  expect(table.columns).toEqual(['Vendor', 'Part No.', 'Size', 'Speed']);
+  expect(table.rows[1]['Part No.']).toBe('F5-6000J3036F16GX2-TZ5N');
+  expect(table.rows[0].Speed).toBe('6000');
+  expect(table.lines).toEqual([2, 4]);
+});
@@ -0,0 +1,30 @@
+import { test, expect } from 'bun:test';
+import { buildRawTable, detectTableMapping, parseTableWithReport } from '../lib/csv-parser';
+import { firstWordLatencyNs, parseCasLatency, parseTimings, parseVoltage } from '../lib/timings';
+
+test('timings, CAS latency and voltage are parsed from column values and notes', () => {
+  expect(parseTimings('CL30-38-38-96')).toEqual({ casLatency: 30, trcd: 38, trp: 38, tras: 96 });
+  expect(parseTimings('36/36/36')).toEqual({ casLatency: 36, trcd: 36, trp: 36, tras: undefined });
+  expect(parseTimings('BIOS 2024-01-15')).toBeNull();
+  expect(parseCasLatency('C36')).toBe(36);
+  expect(parseCasLatency('Tested at CL32 with 1.40V', true)).toBe(32);
+  expect(parseCasLatency('2', true)).toBeUndefined();
+  expect(parseVoltage('1.35V')).toBe(1.35);
+  expect(parseVoltage('BIOS 1.2', true)).toBeUndefined();
+  expect(firstWordLatencyNs(30, 6000)).toBe(10);
+  expect(firstWordLatencyNs(undefined, 6000)).toBeUndefined();
+});
+
+test('timing columns fill RAM modules, falling back to the part number', () => {
+  const table = buildRawTable([
+    ['Vendor', 'Part Number', 'Size', 'Speed', 'CL', 'Timings', 'Voltage'],
+    ['G.Skill', 'F5-6000J3038F16GX2-TZ5N', '16GB', '6000', '', '30-38-38-96', '1.35'],
+    ['Kingston', 'KF560C36BBEK2-32', '16GB', '6000', '', '', ''],
+  ]);
+  const { mapping } = detectTableMapping(table);
+  expect([mapping.casLatency, mapping.timings, mapping.voltage]).toEqual(['CL', 'Timings', 'Voltage']);
+
+  const { modules } = parseTableWithReport(table, mapping);
+  expect(modules[0]).toMatchObject({ casLatency: 30, trcd: 38, trp: 38, tras: 96, voltage: 1.35 });
+  expect(modules[1]).toMatchObject({ casLatency: 36, trcd: undefined, voltage: undefined });
+});
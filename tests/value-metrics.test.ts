@@ -0,0 +1,46 @@
+import { test, expect } from 'bun:test';
+import { bestValueByCapacity, performanceScore, pricePerGB, pricePerMTs, valueScore } from '../lib/value-metrics';
+import { RAMModuleWithPrice } from '../types/ram';
+
+function kit(module: string, overrides: Partial<RAMModuleWithPrice>): RAMModuleWithPrice {
+  return {
+    type: 'DDR5',
+    vendor: 'Kingston',
+    ramSpeed: '6000',
+    supportedSpeed: '6000',
+    size: '16GB',
+    perStickSizeGB: 16,
+    totalSizeGB: 32,
+    module,
+    chip: 'Hynix A-Die (DDR5)',
+    ssDs: 'SS',
+    xmp: '',
+    expo: '',
+    dimmSocketSupport: '',
+    oc: '',
+    bios: '',
+    note: '',
+    ...overrides,
+  };
+}
+
+test('price ratios and scores are computed from priced modules', () => {
+  const a = kit('A', { price: 1200, casLatency: 30 });
+  expect(pricePerGB(a)).toBe(37.5);
+  expect(pricePerMTs(a)).toBe(0.2);
+  expect(pricePerGB(kit('B', {}))).toBeUndefined();
+
+  // Speed 0.375, latency (10ns) 0.667, Premium die 1
+  expect(performanceScore(a)).toBe(68);
+  expect(performanceScore(a, { speed: 0, latency: 0, die: 1 })).toBe(100);
+  expect(valueScore(a)).toBe(56.7);
+  expect(valueScore(kit('B', {}))).toBeUndefined();
+});
+
+test('best value is picked per capacity tier', () => {
+  const cheap = kit('Cheap', { price: 1000 });
+  const pricey = kit('Pricey', { price: 1500 });
+  const big = kit('Big', { price: 2500, totalSizeGB: 64 });
+  const best = bestValueByCapacity([cheap, pricey, big, kit('Unpriced', {})]);
+  expect(Array.from(best, m => m.module).sort()).toEqual(['Big', 'Cheap']);
+});
@@ -0,0 +1,63 @@
+import { test, expect } from 'bun:test';
+import { checkWatch, findWatch, mergeWatchlist, parseWatchlist, toggleWatch, WatchEntry } from '../lib/watchlist';
+import { PrisjaktProduct } from '../types/ram';
+
+function offer(store: string, price: number, availability: PrisjaktProduct['availability']): PrisjaktProduct {
+  return { id: store, name: 'G.Skill Flare X5 32GB', price, currency: 'SEK', store, storeUrl: `https://${store}.example`, availability };
+}
+
+const watched: WatchEntry = { module: 'F5-6000J3038F16GX2-FX5', targetPrice: 1200, addedAt: '2025-01-01T00:00:00.000Z' };
+
+test('starring toggles by normalized part number', () => {
+  const list = toggleWatch([], 'F5-6000J3038F16GX2-FX5');
+  expect(findWatch(list, 'f5-6000j3038f16gx2-fx5')).toBeDefined();
+  expect(toggleWatch(list, 'F5-6000J3038F16GX2-FX5')).toEqual([]);
+});
+
+test('a price drop alerts once when the in-stock price crosses the target', () => {
+  const first = checkWatch({ ...watched, lastPrice: 1390, lastAvailability: 'in_stock' }, [
+    offer('Komplett', 1090, 'not_available'),
+    offer('Inet', 1190, 'in_stock'),
+  ]);
+  expect(first.alerts.map(a => [a.kind, a.store])).toEqual([['price_drop', 'Inet']]);
+  expect(first.entry).toMatchObject({ lastPrice: 1190, lastAvailability: 'in_stock' });
+
+  expect(checkWatch(first.entry, [offer('Inet', 1150, 'in_stock')]).alerts).toEqual([]);
+});
+
+test('coming back in stock alerts even without a target price', () => {
+  const gone = checkWatch({ ...watched, targetPrice: undefined }, [offer('Inet', 1290, 'incoming')]);
+  expect(gone.alerts).toEqual([]);
+  expect(gone.entry.lastAvailability).toBe('incoming');
+
+  const back = checkWatch(gone.entry, [offer('Inet', 1290, 'in_stock')]);
+  expect(back.alerts.map(a => a.kind)).toEqual(['back_in_stock']);
+});
+
+test('merging keeps the incoming modules and targets with the stored last seen state', () => {
+  const stored: WatchEntry[] = [
+    { module: 'KF560C30BBEK2-64', targetPrice: 2000, lastPrice: 2290, lastAvailability: 'in_stock', addedAt: '2024-01-01' },
+    { module: 'CMK64GX5M2B6000C30', lastPrice: 1990, addedAt: '2024-01-01' },
+  ];
+  const incoming: WatchEntry[] = [
+    { module: 'kf560c30bbek2-64', targetPrice: 1800, addedAt: '2024-01-01' },
+    { module: 'F5-6000J3040G32GX2-TZ5N', addedAt: '2024-02-01' },
+  ];
+
+  expect(mergeWatchlist(stored, incoming)).toEqual([
+    { module: 'kf560c30bbek2-64', targetPrice: 1800, lastPrice: 2290, lastAvailability: 'in_stock', addedAt: '2024-01-01' },
+    { module: 'F5-6000J3040G32GX2-TZ5N', addedAt: '2024-02-01' },
+  ]);
+});
+
+test('parsed watchlists keep known fields and reject lists over the limits', () => {
+  const limits = { maxEntries: 2, maxModuleLength: 20 };
+  expect(
+    parseWatchlist([{ module: ' KF560C30BBEK2-64 ', targetPrice: 1800, lastAvailability: 'sold', extra: 'x', addedAt: '2024-01-01' }], limits)
+  ).toEqual([{ module: 'KF560C30BBEK2-64', targetPrice: 1800, addedAt: '2024-01-01' }]);
+
+  expect(parseWatchlist({ module: 'KF560C30BBEK2-64' }, limits)).toBeNull();
+  expect(parseWatchlist([{ module: 'A' }, { module: 'B' }, { module: 'C' }], limits)).toBeNull();
+  expect(parseWatchlist([{ module: 'X'.repeat(21) }], limits)).toBeNull();
+  expect(parseWatchlist([{ module: '' }], limits)).toBeNull();
+});
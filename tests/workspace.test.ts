@@ -0,0 +1,70 @@
+import { test, expect } from 'bun:test';
+import { BoardSetOperation, applyBoardSetOperation, boardNameFromSource, mergeBoards } from '../lib/workspace';
+import { RAMModule } from '../types/ram';
+
+function module(part: string, chip: string, supportedSpeed = '6000'): RAMModule {
+  return {
+    type: 'DDR5',
+    vendor: 'Kingston',
+    ramSpeed: '6000',
+    supportedSpeed,
+    size: '16GB',
+    module: part,
+    chip,
+    ssDs: 'SS',
+    xmp: 'v',
+    expo: '',
+    dimmSocketSupport: '2,4',
+    oc: '',
+    bios: '1001',
+    note: '',
+  };
+}
+
+test('identical SKUs are merged across boards with per-board support', () => {
+  const merged = mergeBoards([
+    { id: 'a', name: 'Board A', modules: [module('KF560C36BBEK2-32', 'Hynix M'), module('CMK32GX5M2B6000C36', 'Samsung B')] },
+    { id: 'b', name: 'Board B', modules: [module('kf560c36bbek2-32 ', 'hynix m', '5600')] },
+  ]);
+
+  expect(merged).toHaveLength(2);
+  const kingston = merged.find(m => m.module === 'KF560C36BBEK2-32');
+  expect(Object.keys(kingston?.boardSupport ?? {})).toEqual(['a', 'b']);
+  expect(kingston?.boardSupport?.b.supportedSpeed).toBe('5600');
+});
+
+test('prices survive re-merging and SKUs with another die stay separate', () => {
+  const boards = [{ id: 'a', name: 'Board A', modules: [module('KF560C36BBEK2-32', 'Hynix M')] }];
+  const first = mergeBoards(boards).map(m => ({ ...m, price: 1290, currency: 'SEK' }));
+
+  const next = mergeBoards(
+    [...boards, { id: 'b', name: 'Board B', modules: [module('KF560C36BBEK2-32', 'Samsung B')] }],
+    first
+  );
+  expect(next).toHaveLength(2);
+  expect(next[0].price).toBe(1290);
+  expect(next[1].price).toBeUndefined();
+});
+
+test('board names default to the file name', () => {
+  expect(boardNameFromSource('ROG-X870E-QVL.xlsx › DDR5')).toBe('ROG-X870E-QVL');
+  expect(boardNameFromSource('Pasted table')).toBe('Pasted table');
+});
+
+test('set operations compare SKUs without revision suffixes', () => {
+  const boards = [
+    { id: 'a', name: 'Board A', modules: [module('CMH32GX5M2B6000C30 ver 5.53.13', 'Hynix M'), module('KF560C36BBEK2-32', 'Hynix M')] },
+    { id: 'b', name: 'Board B', modules: [module('CMH32GX5M2B6000C30 ver 5.53.02', 'Hynix A'), module('F5-6000J3038F16GX2-TZ5N', 'Hynix M')] },
+    { id: 'c', name: 'Board C', modules: [module('KF560C36BBEK2-32', 'Hynix M')] },
+  ];
+  const merged = mergeBoards(boards);
+  const parts = (op: BoardSetOperation) =>
+    applyBoardSetOperation(merged, boards, op).map(m => m.module);
+
+  expect(parts({ kind: 'all', boardIds: ['a', 'b'] })).toEqual([
+    'CMH32GX5M2B6000C30 ver 5.53.13',
+    'CMH32GX5M2B6000C30 ver 5.53.02',
+  ]);
+  expect(parts({ kind: 'only', boardId: 'b', boardIds: ['a', 'b', 'c'] })).toEqual(['F5-6000J3038F16GX2-TZ5N']);
+  expect(parts({ kind: 'difference', include: 'a', exclude: 'b' })).toEqual(['KF560C36BBEK2-32']);
+});
@@ -6,10 +6,19 @@ export interface RAMModule {
   size: string; // raw size string from CSV (e.g., "16GB")
   perStickSizeGB?: number;
   totalSizeGB?: number;
+  sticks?: number;
   module: string;
   chip: string;
+  // Whether the chip came from the QVL, was inferred from the part number (and why), or is
+  // missing from both
+  chipSource?: 'csv' | 'inferred' | 'missing';
+  chipInference?: string;
   ssDs: 'SS' | 'DS';
   rank?: 'Single' | 'Dual' | 'Unknown';
+  // Derived from capacity, rank and die (see lib/organization.ts)
+  icDensity?: string;
+  icWidth?: 'x8' | 'x16';
+  organizationIssue?: string;
   xmp: string;
   expo: string;
   xmpBool?: boolean;
@@ -18,10 +27,31 @@ export interface RAMModule {
   oc: string;
   bios: string;
   note: string;
+  // Primary timings (clock cycles) and DRAM voltage, when the QVL, note or part number gives them
+  casLatency?: number;
+  trcd?: number;
+  trp?: number;
+  tras?: number;
+  voltage?: number;
+  // Decoded from the part number when the vendor's SKU scheme is known
+  series?: string;
+  color?: string;
+  rgb?: boolean;
+  // Set when several board QVLs are merged into one workspace
+  workspaceKey?: string;
+  boardSupport?: Record<string, BoardSupport>;
   // Allow unknown columns to pass through
   [key: string]: any;
 }
 
+// How one board's QVL lists a module
+export interface BoardSupport {
+  supportedSpeed: string;
+  dimmSocketSupport: string;
+  oc: string;
+  bios: string;
+}
+
 export type AvailabilityStatus = 'in_stock' | 'incoming' | 'not_available';
 
 export interface RAMModuleWithPrice extends RAMModule {
@@ -31,16 +61,28 @@ export interface RAMModuleWithPrice extends RAMModule {
   store?: string;
   storeUrl?: string;
   lastUpdated?: Date;
+  // Every store offer from the last price refresh; the fields above describe the best one
+  offers?: PrisjaktProduct[];
 }
 
+export type MemoryGeneration = 'DDR4' | 'DDR5';
+
 export interface DieInfo {
   dieType: string;
   manufacturer: string;
-  rank: 'Single' | 'Dual' | 'Quad';
+  // Die revision letter or marking code (e.g. "A", "Y4CA"); null for manufacturer-only entries
+  revision: string | null;
+  generation: MemoryGeneration | null;
+  rank?: 'Single' | 'Dual' | 'Quad';
   density: string;
   description: string;
   performance: 'Low' | 'Medium' | 'High' | 'Premium' | 'Unknown';
   overclocking: 'Poor' | 'Fair' | 'Good' | 'Excellent' | 'Unknown';
+  // IC part-number prefixes printed on the packages
+  icPartNumbers?: string[];
+  voltage?: { typical: [number, number]; max?: number };
+  timings?: { speed: [number, number]; casLatency: [number, number] };
+  ocNotes?: string;
 }
 
 export interface PrisjaktProduct {
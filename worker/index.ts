@@ -1,10 +1,40 @@
+import { NotificationChannel, emailRelayChannel, notifyAll, webhookChannel } from '../lib/notifications';
+import { bestOffer } from '../lib/offers';
+import { PriceSnapshot, appendSnapshot, priceHistoryKey, snapshotFromOffer } from '../lib/price-history';
+import { searchModule } from '../lib/prisjakt-search';
+import { WatchEntry, checkWatch, mergeWatchlist, parseWatchlist } from '../lib/watchlist';
+import { PrisjaktProduct } from '../types/ram';
+
 // Minimal Cloudflare types to avoid bringing workers-types globally
 type CF_KVNamespace = { get: (key: string, opts?: { type?: 'text' | 'json' | 'arrayBuffer' }) => Promise<any>; put: (key: string, value: string, opts?: { expirationTtl?: number }) => Promise<void> };
-interface Env { CACHE?: CF_KVNamespace; PRISJAKT_API_KEY?: string }
+interface Env {
+  CACHE?: CF_KVNamespace;
+  PRISJAKT_API_KEY?: string;
+  // Alert channels for the watchlist cron; each is used when configured
+  ALERT_WEBHOOK_URL?: string;
+  ALERT_EMAIL_RELAY_URL?: string;
+  ALERT_EMAIL_RELAY_KEY?: string;
+  ALERT_EMAIL_FROM?: string;
+  ALERT_EMAIL_TO?: string;
+  // Bearer token the app's server sends with watchlist requests (wrangler secret)
+  WATCHLIST_TOKEN?: string;
+  // Origin of the web app, the only one allowed to call the API from a browser
+  APP_ORIGIN?: string;
+}
+
+const WATCHLIST_KEY = 'watchlist';
+// Modules per price history request, to keep KV reads per request bounded
+const MAX_HISTORY_MODULES = 50;
+// The cron searches every watched module, so the stored list is bounded too
+const WATCHLIST_LIMITS = { maxEntries: 200, maxModuleLength: 64 };
+const MAX_WATCHLIST_BYTES = 64 * 1024;
 
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
+    if (request.method === 'OPTIONS') {
+      return new Response(null, { status: 204, headers: corsHeaders(env) });
+    }
     if (url.pathname === '/health') {
       return new Response('ok', { status: 200 });
     }
@@ -23,27 +53,141 @@ export default {
           if (cached) return json({ products: cached, cached: true }, 200);
         }
 
-        // Call upstream (placeholder; wire to Prisjakt in future)
-        const products = [{ id: 'mock', name: `${moduleNumber}`, price: 999, currency: 'SEK', store: 'Mock', storeUrl: 'https://example.com', availability: true }];
+        const products = await searchModule(moduleNumber, env.PRISJAKT_API_KEY);
 
         if (env.CACHE) {
           await env.CACHE.put(cacheKey, JSON.stringify(products), { expirationTtl: 3600 });
+          await recordSnapshot(env.CACHE, moduleNumber, products);
         }
 
         return json({ products }, 200);
-      } catch (e: any) {
-        return json({ error: e?.message || 'Unknown error' }, 500);
+      } catch (e) {
+        return json({ error: e instanceof Error ? e.message : 'Unknown error' }, 500);
+      }
+    }
+
+    // Called by the app's server, never from a browser
+    if (url.pathname === '/api/watchlist') {
+      if (!env.CACHE || !env.WATCHLIST_TOKEN) return json({ error: 'Watchlist storage not configured' }, 503);
+      const origin = request.headers.get('origin');
+      if (origin && origin !== env.APP_ORIGIN) return json({ error: 'Origin not allowed' }, 403);
+      if (!sameSecret(request.headers.get('authorization') ?? '', `Bearer ${env.WATCHLIST_TOKEN}`)) {
+        return json({ error: 'Unauthorized' }, 401);
+      }
+      if (request.method === 'GET') {
+        return json({ watchlist: (await env.CACHE.get(WATCHLIST_KEY, { type: 'json' })) ?? [] }, 200);
+      }
+      // The page decides which modules are watched and their targets; the cron's last-seen
+      // price and availability are kept for modules already on the list
+      if (request.method === 'PUT') {
+        const text = await request.text();
+        if (text.length > MAX_WATCHLIST_BYTES) return json({ error: 'Watchlist too large' }, 413);
+        let body: { watchlist?: unknown };
+        try {
+          body = JSON.parse(text);
+        } catch {
+          return json({ error: 'Invalid JSON' }, 400);
+        }
+        const incoming = parseWatchlist(body?.watchlist, WATCHLIST_LIMITS);
+        if (!incoming) {
+          return json({ error: `watchlist must list at most ${WATCHLIST_LIMITS.maxEntries} modules of up to ${WATCHLIST_LIMITS.maxModuleLength} characters` }, 400);
+        }
+        const stored: WatchEntry[] = (await env.CACHE.get(WATCHLIST_KEY, { type: 'json' })) ?? [];
+        const watchlist = mergeWatchlist(stored, incoming);
+        await env.CACHE.put(WATCHLIST_KEY, JSON.stringify(watchlist));
+        return json({ watchlist }, 200);
       }
     }
 
+    // Histories keyed by priceHistoryKey for each `module` parameter; unseen modules are left out
+    if (url.pathname === '/api/price-history' && request.method === 'GET') {
+      const cors = corsHeaders(env);
+      const keys = Array.from(new Set(url.searchParams.getAll('module').map(m => m.trim()).filter(Boolean).map(priceHistoryKey)));
+      if (keys.length === 0) return json({ error: 'module required' }, 400, cors);
+      if (keys.length > MAX_HISTORY_MODULES) return json({ error: `At most ${MAX_HISTORY_MODULES} modules per request` }, 400, cors);
+      const cache = env.CACHE;
+      const histories: (PriceSnapshot[] | null)[] = cache ? await Promise.all(keys.map(key => cache.get(key, { type: 'json' }))) : [];
+      return json({ histories: Object.fromEntries(keys.flatMap((key, i) => (histories[i] ? [[key, histories[i]]] : []))) }, 200, cors);
+    }
+
     return new Response('Not found', { status: 404 });
   },
-} as { fetch: (req: Request, env: Env) => Promise<Response> };
 
-function json(data: unknown, status = 200): Response {
+  // Cron trigger (wrangler.toml [triggers]): re-check every watched module and send alerts
+  async scheduled(_event: unknown, env: Env): Promise<void> {
+    if (!env.CACHE) return;
+    const watchlist: WatchEntry[] = (await env.CACHE.get(WATCHLIST_KEY, { type: 'json' })) ?? [];
+    const channels = alertChannels(env);
+    const checked: WatchEntry[] = [];
+
+    for (const watched of watchlist) {
+      try {
+        const products = await searchModule(watched.module, env.PRISJAKT_API_KEY);
+        await recordSnapshot(env.CACHE, watched.module, products);
+        const { alerts, entry } = checkWatch(watched, products);
+        const failures = await notifyAll(channels, alerts);
+        for (const message of failures) console.error(`Alert for ${watched.module} failed: ${message}`);
+        checked.push(entry);
+      } catch (e) {
+        console.error(`Watchlist check for ${watched.module} failed: ${e instanceof Error ? e.message : e}`);
+        checked.push(watched);
+      }
+    }
+
+    // The page may have changed the list while the check ran; keep its membership and targets
+    const current: WatchEntry[] = (await env.CACHE.get(WATCHLIST_KEY, { type: 'json' })) ?? [];
+    await env.CACHE.put(WATCHLIST_KEY, JSON.stringify(mergeWatchlist(checked, current)));
+  },
+} as {
+  fetch: (req: Request, env: Env) => Promise<Response>;
+  scheduled: (event: unknown, env: Env) => Promise<void>;
+};
+
+function alertChannels(env: Env): NotificationChannel[] {
+  const channels: NotificationChannel[] = [];
+  if (env.ALERT_WEBHOOK_URL) channels.push(webhookChannel(env.ALERT_WEBHOOK_URL));
+  if (env.ALERT_EMAIL_RELAY_URL && env.ALERT_EMAIL_FROM && env.ALERT_EMAIL_TO) {
+    channels.push(emailRelayChannel({
+      url: env.ALERT_EMAIL_RELAY_URL,
+      apiKey: env.ALERT_EMAIL_RELAY_KEY,
+      from: env.ALERT_EMAIL_FROM,
+      to: env.ALERT_EMAIL_TO,
+    }));
+  }
+  return channels;
+}
+
+// Same snapshot the browser records: the best in-stock offer, or the cheapest when none is
+async function recordSnapshot(cache: CF_KVNamespace, moduleNumber: string, products: PrisjaktProduct[]) {
+  const best = bestOffer(products);
+  if (!best) return;
+  const key = priceHistoryKey(moduleNumber);
+  const history: PriceSnapshot[] = (await cache.get(key, { type: 'json' })) ?? [];
+  await cache.put(key, JSON.stringify(appendSnapshot(history, snapshotFromOffer(best))));
+}
+
+// Browsers may read the price history only from the app's origin; without APP_ORIGIN no
+// cross-origin access is allowed
+function corsHeaders(env: Env): Record<string, string> {
+  if (!env.APP_ORIGIN) return {};
+  return {
+    'access-control-allow-origin': env.APP_ORIGIN,
+    'access-control-allow-methods': 'GET, OPTIONS',
+    vary: 'origin',
+  };
+}
+
+// Compares every character so the time taken does not reveal how much of a token matched
+function sameSecret(given: string, expected: string): boolean {
+  let diff = given.length ^ expected.length;
+  for (let i = 0; i < expected.length; i++) diff |= given.charCodeAt(i) ^ expected.charCodeAt(i);
+  return diff === 0;
+}
+
+function json(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
   return new Response(JSON.stringify(data), {
     status,
-    headers: { 'content-type': 'application/json; charset=utf-8' },
+    headers: { 'content-type': 'application/json; charset=utf-8', ...headers },
   });
 }
 